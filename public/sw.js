@@ -0,0 +1,70 @@
+/**
+ * Service worker: keeps the app shell cached so the app opens offline
+ *
+ * precache-manifest.js is generated by the build (see vite.config.ts) and
+ * lists every built file. Each build changes it, which makes browsers
+ * install the new worker; the app then offers to reload (see
+ * src/utils/serviceWorker.ts).
+ *
+ * Documents themselves aren't cached here: the app keeps them in IndexedDB
+ * and syncs over the socket.
+ */
+
+importScripts('/precache-manifest.js');
+
+const { version, urls } = self.__PRECACHE_MANIFEST;
+const CACHE_NAME = `notes-shell-${version}`;
+const SHELL_URL = '/index.html';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      // Skip the HTTP cache so the shell matches this build
+      cache.addAll(urls.map((url) => new Request(url, { cache: 'reload' })))
+    )
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('notes-shell-') && key !== CACHE_NAME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Sent by the page when the user accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  // The socket server and anything else cross-origin go straight to the network
+  if (url.origin !== self.location.origin) return;
+
+  // Pages: the network when it answers, so a deploy shows up right away;
+  // otherwise the cached shell, which routes on the client
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches.match(SHELL_URL, { cacheName: CACHE_NAME })
+          .then((response) => response || Response.error())
+      )
+    );
+    return;
+  }
+
+  // Built files have hashed names and never change, so the cache wins
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then((cached) => cached || fetch(request))
+  );
+});
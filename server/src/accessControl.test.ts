@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { AuthUser } from '@/utils/protocol';
+import { UNCLAIMED_ROLE, createAccessControl, isLinkExpired } from './accessControl';
+import { createMemoryStorage } from './storage/memoryStorage';
+
+const alice: AuthUser = { id: 'alice', displayName: 'Alice' };
+const bob: AuthUser = { id: 'bob', displayName: 'Bob' };
+
+describe('access control', () => {
+  it('lets everyone write to a new document nobody has claimed', async () => {
+    const access = createAccessControl(createMemoryStorage());
+    expect(await access.resolveRole('doc', alice.id, true)).toBe('editor');
+    expect((await access.getAccess('doc')).members).toEqual([]);
+  });
+
+  it('only lets everyone read an existing document until it is claimed', async () => {
+    const access = createAccessControl(createMemoryStorage());
+    expect(UNCLAIMED_ROLE).toBe('viewer');
+    expect(await access.resolveRole('doc', alice.id)).toBe('viewer');
+    expect(await access.canOpen('doc', bob.id)).toBe(true);
+  });
+
+  it('makes only the first claimant the owner', async () => {
+    const access = createAccessControl(createMemoryStorage());
+    expect(await access.claim('doc', alice)).toBe(true);
+    expect(await access.claim('doc', bob)).toBe(false);
+    expect(await access.resolveRole('doc', alice.id)).toBe('owner');
+    expect(await access.resolveRole('doc', bob.id, true)).toBeNull();
+    expect(await access.canOpen('doc', bob.id)).toBe(false);
+  });
+
+  it('keeps members across a reload from the same storage', async () => {
+    const storage = createMemoryStorage();
+    await createAccessControl(storage).claim('doc', alice);
+    expect(await createAccessControl(storage).resolveRole('doc', alice.id)).toBe('owner');
+  });
+
+  it('lets people in with a share link, never lowering their role', async () => {
+    const access = createAccessControl(createMemoryStorage());
+    await access.claim('doc', alice);
+    const link = await access.createLink('doc', alice, 'commenter', null);
+
+    expect(await access.redeemLink('doc', bob, link.token)).toBe('commenter');
+    expect(await access.resolveRole('doc', bob.id)).toBe('commenter');
+    expect(await access.redeemLink('doc', alice, link.token)).toBe('owner');
+    expect(await access.redeemLink('doc', { id: 'carol', displayName: 'Carol' }, 'unknown')).toBeNull();
+  });
+
+  it('refuses expired and revoked links', async () => {
+    const access = createAccessControl(createMemoryStorage());
+    await access.claim('doc', alice);
+    const expired = await access.createLink('doc', alice, 'editor', new Date(Date.now() - 1000).toISOString());
+    expect(isLinkExpired(expired)).toBe(true);
+    expect(await access.redeemLink('doc', bob, expired.token)).toBeNull();
+
+    const link = await access.createLink('doc', alice, 'editor', null);
+    expect(await access.revokeLink('doc', link.token)).toBe(true);
+    expect(await access.revokeLink('doc', link.token)).toBe(false);
+    expect(await access.redeemLink('doc', bob, link.token)).toBeNull();
+  });
+
+  it('changes and removes members', async () => {
+    const access = createAccessControl(createMemoryStorage());
+    await access.claim('doc', alice);
+    const link = await access.createLink('doc', alice, 'viewer', null);
+    await access.redeemLink('doc', bob, link.token);
+
+    await access.setMemberRole('doc', bob.id, 'editor');
+    expect(await access.resolveRole('doc', bob.id)).toBe('editor');
+    await access.setMemberRole('doc', bob.id, null);
+    expect(await access.resolveRole('doc', bob.id)).toBeNull();
+  });
+});
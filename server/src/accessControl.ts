@@ -0,0 +1,164 @@
+import { randomBytes } from 'node:crypto';
+import { AuthUser, DocumentRole, ShareLink, ShareRole, hasRole } from '@/utils/protocol';
+import type { DocumentStorage, StoredAccess } from './storage/types';
+
+/**
+ * Whether a link can no longer be used to join
+ */
+export const isLinkExpired = (link: ShareLink, now = Date.now()): boolean =>
+  link.expiresAt !== null && Date.parse(link.expiresAt) <= now;
+
+/**
+ * A user's role in a document, or null if they aren't a member
+ */
+export const findRole = (access: StoredAccess, userId: string): DocumentRole | null =>
+  access.members.find(member => member.userId === userId)?.role ?? null;
+
+// What everyone signed in may do with an existing document nobody has
+// claimed, such as one from before access control existed, until someone
+// claims it
+export const UNCLAIMED_ROLE: DocumentRole = 'viewer';
+
+/**
+ * Keeps who may open each document, on top of a storage backend
+ * Like the document store, each document's access is loaded once and
+ * shared, and writes to it are serialized. Documents without members
+ * haven't been claimed: anyone may write to a new one, which makes them its
+ * owner, and anyone may read an existing one and claim it.
+ */
+export const createAccessControl = (storage: DocumentStorage) => {
+  const documents = new Map<string, Promise<StoredAccess>>();
+  const writes = new Map<string, Promise<void>>();
+
+  const getAccess = (documentId: string): Promise<StoredAccess> => {
+    let access = documents.get(documentId);
+    if (!access) {
+      access = storage.loadAccess(documentId)
+        .then(stored => stored ?? { documentId, members: [], links: [] });
+      // Don't cache failures, so the next request tries again
+      access.catch(() => documents.delete(documentId));
+      documents.set(documentId, access);
+    }
+    return access;
+  };
+
+  const persist = (access: StoredAccess): Promise<void> => {
+    const previous = writes.get(access.documentId) ?? Promise.resolve();
+    const snapshot: StoredAccess = JSON.parse(JSON.stringify(access));
+    const write = previous
+      .catch(() => undefined)
+      .then(() => storage.saveAccess(snapshot));
+    writes.set(access.documentId, write);
+    return write;
+  };
+
+  /**
+   * The user's role in a document, or null if they may not open it
+   * @param isNew Whether the document has never been written to
+   */
+  const resolveRole = async (documentId: string, userId: string, isNew = false): Promise<DocumentRole | null> => {
+    const access = await getAccess(documentId);
+    if (access.members.length > 0) return findRole(access, userId);
+    return isNew ? 'editor' : UNCLAIMED_ROLE;
+  };
+
+  /**
+   * Makes the user the owner of a document nobody has claimed, either by
+   * creating it or by asking to
+   * @returns false if someone already owns it
+   */
+  const claim = async (documentId: string, user: AuthUser): Promise<boolean> => {
+    const access = await getAccess(documentId);
+    if (access.members.length > 0) return false;
+    console.log(`${user.id} claimed ${documentId}`);
+    access.members.push({ userId: user.id, displayName: user.displayName, role: 'owner' });
+    await persist(access);
+    return true;
+  };
+
+  /**
+   * Whether the user would be let into a document
+   */
+  const canOpen = async (documentId: string, userId: string): Promise<boolean> =>
+    (await resolveRole(documentId, userId)) !== null;
+
+  /**
+   * Makes the user a member with the link's role, unless they already have
+   * one at least as strong
+   * @returns The user's role afterwards, or null if the link is unknown or
+   * expired and they aren't a member
+   */
+  const redeemLink = async (documentId: string, user: AuthUser, token: string): Promise<DocumentRole | null> => {
+    const access = await getAccess(documentId);
+    const link = access.links.find(l => l.token === token);
+    const current = findRole(access, user.id);
+    if (!link || isLinkExpired(link)) return current;
+    if (hasRole(current, link.role)) return current;
+
+    console.log(`${user.id} joined ${documentId} as ${link.role} with a share link`);
+    access.members = [
+      ...access.members.filter(member => member.userId !== user.id),
+      { userId: user.id, displayName: user.displayName, role: link.role }
+    ];
+    await persist(access);
+    return link.role;
+  };
+
+  /**
+   * Changes a member's role, or removes them when role is null
+   */
+  const setMemberRole = async (documentId: string, userId: string, role: DocumentRole | null): Promise<StoredAccess> => {
+    const access = await getAccess(documentId);
+    access.members = role === null
+      ? access.members.filter(member => member.userId !== userId)
+      : access.members.map(member => (member.userId === userId ? { ...member, role } : member));
+    await persist(access);
+    return access;
+  };
+
+  const createLink = async (
+    documentId: string,
+    createdBy: AuthUser,
+    role: ShareRole,
+    expiresAt: string | null
+  ): Promise<ShareLink> => {
+    const access = await getAccess(documentId);
+    const link: ShareLink = {
+      token: randomBytes(18).toString('base64url'),
+      role,
+      createdBy: createdBy.id,
+      createdAt: new Date().toISOString(),
+      expiresAt
+    };
+    access.links.push(link);
+    await persist(access);
+    return link;
+  };
+
+  /**
+   * Stops a link from letting anyone else in; people who already joined
+   * with it keep their role
+   * @returns false if there was no such link
+   */
+  const revokeLink = async (documentId: string, token: string): Promise<boolean> => {
+    const access = await getAccess(documentId);
+    const remaining = access.links.filter(link => link.token !== token);
+    if (remaining.length === access.links.length) return false;
+    access.links = remaining;
+    await persist(access);
+    return true;
+  };
+
+  return {
+    getAccess,
+    resolveRole,
+    claim,
+    canOpen,
+    redeemLink,
+    setMemberRole,
+    createLink,
+    revokeLink
+  };
+};
+
+export type AccessControl = ReturnType<typeof createAccessControl>;
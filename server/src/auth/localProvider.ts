@@ -0,0 +1,109 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import type { AuthProvider, AuthUser, Credentials } from './types';
+
+interface LocalAccount {
+  username: string;
+  salt: string;
+  passwordHash: string;
+  createdAt: string;
+}
+
+const USERNAME_PATTERN = /^[\p{L}\p{N}._ -]{1,40}$/u;
+const KEY_LENGTH = 64;
+
+const hashPassword = (password: string, salt: string): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+
+const toUser = (account: LocalAccount): AuthUser => ({
+  id: `local:${account.username.toLowerCase()}`,
+  displayName: account.username
+});
+
+/**
+ * Username and password accounts kept by the server itself
+ * A stand-in until a real identity provider is configured: the first
+ * sign-in with a new username creates the account with that password.
+ * Passwords are stored as salted scrypt hashes, in a JSON file when one is
+ * given and otherwise only in memory.
+ */
+export const createLocalAuthProvider = (accountsFile?: string): AuthProvider => {
+  let accounts: Promise<Map<string, LocalAccount>> | null = null;
+  let writes = Promise.resolve();
+
+  const load = (): Promise<Map<string, LocalAccount>> => {
+    if (!accounts) {
+      accounts = (async () => {
+        if (!accountsFile) return new Map();
+        try {
+          const saved = JSON.parse(await fs.readFile(accountsFile, 'utf8')) as LocalAccount[];
+          return new Map(saved.map(account => [account.username.toLowerCase(), account]));
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+          throw err;
+        }
+      })();
+      // Don't cache failures, so the next sign-in tries again
+      accounts.catch(() => {
+        accounts = null;
+      });
+    }
+    return accounts;
+  };
+
+  // Written whole, through a temporary file, one write at a time
+  const save = (saved: Map<string, LocalAccount>): Promise<void> => {
+    if (!accountsFile) return Promise.resolve();
+    const write = writes
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(accountsFile), { recursive: true });
+        const temp = `${accountsFile}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify([...saved.values()], null, 2), 'utf8');
+        await fs.rename(temp, accountsFile);
+      });
+    writes = write;
+    return write;
+  };
+
+  const checkPassword = async (account: LocalAccount, password: string): Promise<boolean> => {
+    const expected = Buffer.from(account.passwordHash, 'hex');
+    const actual = await hashPassword(password, account.salt);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  };
+
+  return {
+    name: 'local',
+
+    async authenticate({ username, password }: Credentials): Promise<AuthUser | null> {
+      const name = username.trim();
+      if (!USERNAME_PATTERN.test(name) || !password) return null;
+      const key = name.toLowerCase();
+      const saved = await load();
+
+      let account = saved.get(key);
+      if (!account) {
+        const salt = randomBytes(16).toString('hex');
+        const created: LocalAccount = {
+          username: name,
+          salt,
+          passwordHash: (await hashPassword(password, salt)).toString('hex'),
+          createdAt: new Date().toISOString()
+        };
+        // Someone may have taken the name while the password was hashed
+        account = saved.get(key);
+        if (!account) {
+          saved.set(key, created);
+          await save(saved);
+          console.log(`Created local account ${name}`);
+          return toUser(created);
+        }
+      }
+
+      return (await checkPassword(account, password)) ? toUser(account) : null;
+    }
+  };
+};
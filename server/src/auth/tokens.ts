@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { AuthUser } from './types';
+
+// A week, so people stay signed in between working sessions
+const DEFAULT_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface TokenPayload {
+  sub: string;
+  name: string;
+  // Expiry, in milliseconds since the epoch
+  exp: number;
+}
+
+export interface IssuedToken {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Signs and checks the tokens sockets connect with
+ * A token is its payload and an HMAC-SHA256 signature of it, both base64url
+ * encoded and joined by a dot. Tokens can't be revoked before they expire;
+ * changing the secret signs everyone out.
+ */
+export const createTokenService = (secret: string, ttlMs = DEFAULT_TOKEN_TTL_MS) => {
+  const sign = (encodedPayload: string) =>
+    createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+
+  const issue = (user: AuthUser): IssuedToken => {
+    const payload: TokenPayload = { sub: user.id, name: user.displayName, exp: Date.now() + ttlMs };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return {
+      token: `${encodedPayload}.${sign(encodedPayload)}`,
+      expiresAt: new Date(payload.exp).toISOString()
+    };
+  };
+
+  /**
+   * The user a token was issued to, or null if it's malformed, wasn't
+   * signed with this secret or has expired
+   */
+  const verify = (token: unknown): AuthUser | null => {
+    if (typeof token !== 'string') return null;
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    if (!encodedPayload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(encodedPayload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+      const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as TokenPayload;
+      if (typeof payload.sub !== 'string' || typeof payload.name !== 'string' || typeof payload.exp !== 'number') {
+        return null;
+      }
+      if (payload.exp <= Date.now()) return null;
+      return { id: payload.sub, displayName: payload.name };
+    } catch {
+      return null;
+    }
+  };
+
+  return { issue, verify };
+};
+
+export type TokenService = ReturnType<typeof createTokenService>;
@@ -0,0 +1,21 @@
+import type { AuthUser } from '@/utils/protocol';
+
+export type { AuthUser };
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Pluggable check of sign-in credentials
+ * A provider only says who the credentials belong to; issuing and checking
+ * tokens is the same whichever provider is used. Providers that hand off to
+ * an outside identity service implement the same method.
+ */
+export interface AuthProvider {
+  // For logs
+  name: string;
+  // The user, or null if the credentials were wrong
+  authenticate(credentials: Credentials): Promise<AuthUser | null>;
+}
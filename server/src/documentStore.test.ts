@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createDocument, encodeUpdate, getText, insertText, loadDocument } from '@/utils/crdt';
+import { RevisionAuthor, createDocumentStore } from './documentStore';
+import { createMemoryStorage } from './storage/memoryStorage';
+
+const author = (clientId: string): RevisionAuthor => ({ clientId, userId: `user-${clientId}`, displayName: clientId });
+
+// A client's replica after typing text into an empty document, and its update
+const typed = (clientId: string, text: string) => {
+  const doc = createDocument(clientId);
+  insertText(doc, 0, text);
+  return { doc, update: encodeUpdate(doc) };
+};
+
+describe('document store', () => {
+  it('merges an update made on the current revision', async () => {
+    const store = createDocumentStore(createMemoryStorage());
+    const result = await store.mergeUpdate('doc', typed('a', 'hello').update, 0, author('a'), 'u1');
+    expect(result).toMatchObject({ changed: true, stale: false, duplicate: false, foreign: false, revision: 1 });
+    expect(getText(result.state.doc)).toBe('hello');
+  });
+
+  it('refuses an update made on an older revision', async () => {
+    const store = createDocumentStore(createMemoryStorage());
+    const { doc, update } = typed('a', 'hello');
+    await store.mergeUpdate('doc', update, 0, author('a'), 'u1');
+
+    const b = loadDocument('b', encodeUpdate(doc));
+    insertText(b, 5, '!');
+    await store.mergeUpdate('doc', encodeUpdate(b), 1, author('b'), 'u2');
+
+    insertText(doc, 5, '?');
+    const result = await store.mergeUpdate('doc', encodeUpdate(doc), 1, author('a'), 'u3');
+    expect(result).toMatchObject({ changed: false, stale: true, revision: 2 });
+    expect(getText(result.state.doc)).toBe('hello!');
+  });
+
+  it('answers a repeated update id without merging it again', async () => {
+    const store = createDocumentStore(createMemoryStorage());
+    const { update } = typed('a', 'hello');
+    await store.mergeUpdate('doc', update, 0, author('a'), 'u1');
+
+    // Stale by now, but the earlier answer still stands
+    const result = await store.mergeUpdate('doc', update, 0, author('a'), 'u1');
+    expect(result).toMatchObject({ changed: false, stale: false, duplicate: true, revision: 1 });
+    expect(await store.listRevisions('doc')).toHaveLength(1);
+  });
+
+  it('remembers update ids across a reload from the same storage', async () => {
+    const storage = createMemoryStorage();
+    const { update } = typed('a', 'hello');
+    await createDocumentStore(storage).mergeUpdate('doc', update, 0, author('a'), 'u1');
+
+    const result = await createDocumentStore(storage).mergeUpdate('doc', update, 0, author('a'), 'u1');
+    expect(result).toMatchObject({ duplicate: true, revision: 1 });
+  });
+
+  it('refuses characters added under another client\'s id', async () => {
+    const store = createDocumentStore(createMemoryStorage());
+    const result = await store.mergeUpdate('doc', typed('a', 'hello').update, 0, author('b'), 'u1');
+    expect(result).toMatchObject({ changed: false, foreign: true, revision: 0 });
+    expect(getText(result.state.doc)).toBe('');
+  });
+
+  it('accepts characters from others that the server already has', async () => {
+    const store = createDocumentStore(createMemoryStorage());
+    const { doc, update } = typed('a', 'hello');
+    await store.mergeUpdate('doc', update, 0, author('a'), 'u1');
+
+    const b = loadDocument('b', encodeUpdate(doc));
+    insertText(b, 0, '> ');
+    const result = await store.mergeUpdate('doc', encodeUpdate(b), 1, author('b'), 'u2');
+    expect(result).toMatchObject({ changed: true, foreign: false, revision: 2 });
+  });
+
+  it('records a revision for each change to the text', async () => {
+    const store = createDocumentStore(createMemoryStorage());
+    const { doc, update } = typed('a', 'one');
+    await store.mergeUpdate('doc', update, 0, author('a'), 'u1');
+    insertText(doc, 3, ' two');
+    await store.mergeUpdate('doc', encodeUpdate(doc), 1, author('a'), 'u2');
+    await store.setFormat('doc', 'markdown');
+
+    const revisions = await store.listRevisions('doc');
+    expect(revisions.map(r => [r.revision, r.content])).toEqual([[2, 'one two'], [1, 'one']]);
+    expect((await store.getRevision('doc', 1))?.content).toBe('one');
+    expect(await store.getRevision('doc', 3)).toBeNull();
+    expect((await store.getDocument('doc')).format).toBe('markdown');
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  CRDTDocument,
+  CRDTUpdate,
+  StateVector,
+  createDocument,
+  loadDocument,
+  getText,
+  getStateVector,
+  getNewItemClients,
+  encodeUpdate,
+  applyUpdate
+} from '@/utils/crdt';
+import type { DocumentFormat } from '@/utils/protocol';
+import type { DocumentStorage, DocumentSummary, StoredRevision } from './storage/types';
+
+// The server never types into documents, it only merges and relays
+const SERVER_CLIENT_ID = 'server';
+
+// How many recent update ids to remember per document for spotting resends.
+// They're stored with the document, so a client replaying its outbox after
+// a restart still gets its earlier answer rather than a second merge.
+const MAX_REMEMBERED_UPDATES = 200;
+
+export interface DocumentState {
+  id: string;
+  doc: CRDTDocument;
+  revision: number;
+  updatedAt: string;
+  format: DocumentFormat;
+  // Recently merged update ids and the revision each one produced
+  appliedUpdates: Map<string, number>;
+}
+
+/**
+ * Who made a change, recorded with each revision
+ */
+export interface RevisionAuthor {
+  clientId: string;
+  userId: string;
+  displayName: string;
+}
+
+/**
+ * Result of merging a client update
+ * `changed` is false when the server already had everything in it, and
+ * `stale` is true when the update was refused without being merged.
+ * `duplicate` is true when an update with the same id was merged before;
+ * `revision` is the revision the update produced either way.
+ * `foreign` is true when the update was refused for adding characters
+ * under another client's id.
+ */
+export interface MergeResult {
+  state: DocumentState;
+  changed: boolean;
+  stale: boolean;
+  duplicate: boolean;
+  foreign: boolean;
+  revision: number;
+}
+
+/**
+ * Keeps live replicas of open documents in memory on top of a storage backend
+ * Each document is loaded once and all writes to it are serialized, so
+ * concurrent updates never race each other to storage.
+ */
+export const createDocumentStore = (storage: DocumentStorage) => {
+  const documents = new Map<string, Promise<DocumentState>>();
+  const writes = new Map<string, Promise<void>>();
+
+  const getDocument = (documentId: string): Promise<DocumentState> => {
+    let state = documents.get(documentId);
+    if (!state) {
+      state = storage.load(documentId).then(stored => stored
+        ? {
+            id: documentId,
+            doc: loadDocument(SERVER_CLIENT_ID, stored.update),
+            revision: stored.revision,
+            updatedAt: stored.updatedAt,
+            format: stored.format ?? 'plain',
+            appliedUpdates: new Map(stored.appliedUpdates ?? [])
+          }
+        : {
+            id: documentId,
+            doc: createDocument(SERVER_CLIENT_ID),
+            revision: 0,
+            updatedAt: new Date().toISOString(),
+            format: 'plain',
+            appliedUpdates: new Map()
+          });
+      // Don't cache failures, so the next request tries again
+      state.catch(() => documents.delete(documentId));
+      documents.set(documentId, state);
+    }
+    return state;
+  };
+
+  // A revision is recorded when the text changed, which always has an author
+  const persist = (state: DocumentState, author?: RevisionAuthor): Promise<void> => {
+    const previous = writes.get(state.id) ?? Promise.resolve();
+    const content = getText(state.doc);
+    const revision: StoredRevision | null = author && {
+      documentId: state.id,
+      revision: state.revision,
+      clientId: author.clientId,
+      userId: author.userId,
+      displayName: author.displayName,
+      createdAt: state.updatedAt,
+      content
+    };
+    const write = previous
+      .catch(() => undefined)
+      .then(() => storage.save({
+        id: state.id,
+        update: encodeUpdate(state.doc),
+        content,
+        revision: state.revision,
+        updatedAt: state.updatedAt,
+        format: state.format,
+        appliedUpdates: [...state.appliedUpdates]
+      }))
+      .then(() => revision && storage.saveRevision(revision));
+    writes.set(state.id, write);
+    return write;
+  };
+
+  /**
+   * Everything a client with the given state vector is missing
+   */
+  const getChangesSince = async (documentId: string, stateVector: StateVector) => {
+    const state = await getDocument(documentId);
+    return {
+      state,
+      update: encodeUpdate(state.doc, stateVector),
+      stateVector: getStateVector(state.doc)
+    };
+  };
+
+  /**
+   * Merges a client's update and persists the result
+   * Updates made on top of an older revision than the current one are
+   * refused, so the client merges the newer changes itself first. An update
+   * whose id was seen before isn't merged again. Clients may only add
+   * characters under their own id, so nobody can take ids another client
+   * will type with later.
+   */
+  const mergeUpdate = async (
+    documentId: string,
+    update: CRDTUpdate,
+    baseRevision: number,
+    author: RevisionAuthor,
+    updateId: string
+  ): Promise<MergeResult> => {
+    const state = await getDocument(documentId);
+    const appliedRevision = state.appliedUpdates.get(updateId);
+    if (appliedRevision !== undefined) {
+      return { state, changed: false, stale: false, duplicate: true, foreign: false, revision: appliedRevision };
+    }
+    if (getNewItemClients(state.doc, update).some(client => client !== author.clientId)) {
+      return { state, changed: false, stale: false, duplicate: false, foreign: true, revision: state.revision };
+    }
+    if (baseRevision !== state.revision) {
+      return { state, changed: false, stale: true, duplicate: false, foreign: false, revision: state.revision };
+    }
+
+    const before = JSON.stringify(encodeUpdate(state.doc));
+    applyUpdate(state.doc, update);
+    const changed = JSON.stringify(encodeUpdate(state.doc)) !== before;
+
+    if (changed) {
+      state.revision++;
+      state.updatedAt = new Date().toISOString();
+    }
+    state.appliedUpdates.set(updateId, state.revision);
+    if (state.appliedUpdates.size > MAX_REMEMBERED_UPDATES) {
+      state.appliedUpdates.delete(state.appliedUpdates.keys().next().value);
+    }
+    if (changed) {
+      await persist(state, author);
+    }
+
+    return { state, changed, stale: false, duplicate: false, foreign: false, revision: state.revision };
+  };
+
+  /**
+   * Changes how the document is shown; not a change to its text, so no
+   * revision is recorded
+   */
+  const setFormat = async (documentId: string, format: DocumentFormat): Promise<DocumentState> => {
+    const state = await getDocument(documentId);
+    if (state.format !== format) {
+      state.format = format;
+      await persist(state);
+    }
+    return state;
+  };
+
+  /**
+   * A document's revisions, newest first
+   */
+  const listRevisions = async (documentId: string, limit = 100): Promise<StoredRevision[]> => {
+    // Let pending writes land so the latest revision is included
+    await writes.get(documentId)?.catch(() => undefined);
+    return storage.listRevisions(documentId, limit);
+  };
+
+  /**
+   * One revision's snapshot, or null if it was never recorded or has
+   * since been dropped from the history
+   */
+  const getRevision = async (documentId: string, revision: number): Promise<StoredRevision | null> => {
+    await writes.get(documentId)?.catch(() => undefined);
+    return storage.loadRevision(documentId, revision);
+  };
+
+  /**
+   * Stored documents, most recently updated first
+   * Only documents the filter accepts count towards the limit.
+   */
+  const listDocuments = async (limit = 100, include?: (summary: DocumentSummary) => Promise<boolean>) => {
+    const documents = await storage.list();
+    const included = include
+      ? await Promise.all(documents.map(include))
+      : documents.map(() => true);
+    return documents
+      .filter((_, index) => included[index])
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit);
+  };
+
+  return {
+    getDocument,
+    getChangesSince,
+    mergeUpdate,
+    setFormat,
+    listRevisions,
+    getRevision,
+    listDocuments
+  };
+};
+
+export type DocumentStore = ReturnType<typeof createDocumentStore>;
@@ -0,0 +1,45 @@
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { createDocumentServer } from './server';
+import { createLocalAuthProvider } from './auth/localProvider';
+import { createMemoryStorage } from './storage/memoryStorage';
+import { createFileStorage } from './storage/fileStorage';
+
+// Configuration comes from the environment so the same entry point works
+// locally and on the hosting platform
+const PORT = Number(process.env.PORT) || 3001;
+const STORAGE = process.env.STORAGE || 'file';
+const DATA_DIR = process.env.DATA_DIR || path.resolve('data');
+const CORS_ORIGIN = process.env.CORS_ORIGIN?.split(',') || '*';
+// Without a fixed secret, everyone is signed out whenever the server restarts
+const AUTH_SECRET = process.env.AUTH_SECRET || randomBytes(32).toString('hex');
+const TOKEN_TTL_MS = Number(process.env.TOKEN_TTL_HOURS) * 60 * 60 * 1000 || undefined;
+
+const storage = STORAGE === 'memory' ? createMemoryStorage() : createFileStorage(DATA_DIR);
+const authProvider = createLocalAuthProvider(
+  STORAGE === 'memory' ? undefined : path.join(DATA_DIR, 'auth', 'accounts.json')
+);
+const server = createDocumentServer({
+  storage,
+  authProvider,
+  authSecret: AUTH_SECRET,
+  tokenTtlMs: TOKEN_TTL_MS,
+  corsOrigin: CORS_ORIGIN
+});
+
+server.listen(PORT).then(() => {
+  console.log(`Socket.io server listening on port ${PORT} using ${STORAGE} storage`);
+  if (STORAGE !== 'memory') {
+    console.log('Storing documents in:', DATA_DIR);
+  }
+  if (!process.env.AUTH_SECRET) {
+    console.warn('AUTH_SECRET is not set; using a random one, so sign-ins only last until the server restarts');
+  }
+});
+
+const shutdown = () => {
+  console.log('Shutting down');
+  server.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
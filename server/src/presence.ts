@@ -0,0 +1,110 @@
+import type { Participant } from '@/utils/protocol';
+
+interface PresenceEntry {
+  participant: Participant;
+  socketId: string;
+  lastSeen: number;
+}
+
+export interface PresenceOptions {
+  // How long a participant may go without a heartbeat before being dropped
+  timeoutMs?: number;
+  // Called with each document whose participant list changed
+  onChange: (documentId: string) => void;
+}
+
+/**
+ * Tracks who is in each document
+ * Participants are removed when they leave, when their socket disconnects,
+ * or when they stop sending heartbeats (e.g. a laptop lid was closed
+ * without the connection dropping cleanly).
+ */
+export const createPresenceTracker = ({ timeoutMs = 30000, onChange }: PresenceOptions) => {
+  const documents = new Map<string, Map<string, PresenceEntry>>();
+
+  const removeWhere = (predicate: (entry: PresenceEntry) => boolean) => {
+    for (const [documentId, entries] of documents) {
+      let changed = false;
+      for (const [clientId, entry] of entries) {
+        if (predicate(entry)) {
+          entries.delete(clientId);
+          changed = true;
+        }
+      }
+      if (entries.size === 0) documents.delete(documentId);
+      if (changed) onChange(documentId);
+    }
+  };
+
+  const join = (documentId: string, socketId: string, participant: Participant) => {
+    let entries = documents.get(documentId);
+    if (!entries) {
+      entries = new Map();
+      documents.set(documentId, entries);
+    }
+    // Rejoining after a reconnect keeps the original join time
+    const existing = entries.get(participant.clientId);
+    entries.set(participant.clientId, {
+      participant: existing ? { ...participant, joinedAt: existing.participant.joinedAt } : participant,
+      socketId,
+      lastSeen: Date.now()
+    });
+    onChange(documentId);
+  };
+
+  const leave = (documentId: string, clientId: string) => {
+    const entries = documents.get(documentId);
+    if (!entries?.delete(clientId)) return;
+    if (entries.size === 0) documents.delete(documentId);
+    onChange(documentId);
+  };
+
+  /**
+   * Whether the participant joined the document from the given socket
+   */
+  const belongsTo = (documentId: string, clientId: string, socketId: string): boolean =>
+    documents.get(documentId)?.get(clientId)?.socketId === socketId;
+
+  /**
+   * Refreshes a participant's heartbeat
+   * @returns false if the participant isn't known from this socket (e.g. it
+   * already timed out)
+   */
+  const heartbeat = (documentId: string, clientId: string, socketId: string): boolean => {
+    const entry = documents.get(documentId)?.get(clientId);
+    if (!entry || entry.socketId !== socketId) return false;
+    entry.lastSeen = Date.now();
+    return true;
+  };
+
+  const disconnect = (socketId: string) => removeWhere(entry => entry.socketId === socketId);
+
+  // Drops a socket from one document, e.g. when its user loses access
+  const removeSocket = (documentId: string, socketId: string) => {
+    const entries = documents.get(documentId);
+    if (!entries) return;
+    const clientIds = [...entries].filter(([, entry]) => entry.socketId === socketId).map(([clientId]) => clientId);
+    clientIds.forEach(clientId => leave(documentId, clientId));
+  };
+
+  const getParticipants = (documentId: string): Participant[] =>
+    [...(documents.get(documentId)?.values() ?? [])]
+      .map(entry => entry.participant)
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+
+  const sweepTimer = setInterval(() => {
+    const cutoff = Date.now() - timeoutMs;
+    removeWhere(entry => entry.lastSeen < cutoff);
+  }, Math.min(timeoutMs, 5000));
+
+  return {
+    join,
+    leave,
+    belongsTo,
+    heartbeat,
+    disconnect,
+    removeSocket,
+    getParticipants,
+    stop: () => clearInterval(sweepTimer)
+  };
+};
@@ -0,0 +1,662 @@
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { RemoteSocket, Server, Socket } from 'socket.io';
+import { getText, getStateVector } from '@/utils/crdt';
+import {
+  PROTOCOL_VERSION,
+  SIGN_IN_PATH,
+  UNAUTHORIZED_ERROR,
+  AuthUser,
+  DocumentRole,
+  SignInResponse,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DocumentErrorCode,
+  joinDocumentSchema,
+  leaveDocumentSchema,
+  getDocumentSchema,
+  documentUpdateSchema,
+  presenceHeartbeatSchema,
+  listDocumentsSchema,
+  cursorUpdateSchema,
+  listRevisionsSchema,
+  getRevisionSchema,
+  latencyPingSchema,
+  signInRequestSchema,
+  setMemberRoleSchema,
+  createShareLinkSchema,
+  revokeShareLinkSchema,
+  setDocumentFormatSchema,
+  claimDocumentSchema,
+  hasRole,
+  parsePayload
+} from '@/utils/protocol';
+import { createAccessControl, findRole } from './accessControl';
+import { createDocumentStore } from './documentStore';
+import { createPresenceTracker } from './presence';
+import { createTokenService } from './auth/tokens';
+import type { AuthProvider } from './auth/types';
+import type { DocumentStorage } from './storage/types';
+
+export interface DocumentServerOptions {
+  storage: DocumentStorage;
+  // Checks usernames and passwords when people sign in
+  authProvider: AuthProvider;
+  // Signs the tokens sockets connect with
+  authSecret: string;
+  tokenTtlMs?: number;
+  corsOrigin?: string | string[];
+  presenceTimeoutMs?: number;
+}
+
+// There's only ever one server process
+type InterServerEvents = Record<string, never>;
+
+// Set on each socket once its token has been checked
+interface SocketData {
+  user: AuthUser;
+}
+
+type DocumentServerSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// A socket found by room, which may not be one this handler was called for
+type RoomSocket = DocumentServerSocket | RemoteSocket<ServerToClientEvents, SocketData>;
+
+const roomName = (documentId: string) => `document:${documentId}`;
+
+// Sign-in requests are a username and a password
+const MAX_BODY_LENGTH = 16 * 1024;
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_LENGTH) {
+        reject(new Error('Request body is too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Creates the Socket.io server the client in src/utils/socket.ts talks to
+ * The event contract is defined in src/utils/protocol.ts; every inbound
+ * payload is validated against it before being acted on.
+ */
+export const createDocumentServer = ({
+  storage,
+  authProvider,
+  authSecret,
+  tokenTtlMs,
+  corsOrigin = '*',
+  presenceTimeoutMs
+}: DocumentServerOptions) => {
+  const store = createDocumentStore(storage);
+  const access = createAccessControl(storage);
+  const tokens = createTokenService(authSecret, tokenTtlMs);
+
+  // The app is usually served from another origin, like the socket
+  const allowOrigin = (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (corsOrigin === '*') {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    } else if (origin && [corsOrigin].flat().includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+  };
+
+  const handleSignIn = async (req: IncomingMessage, res: ServerResponse) => {
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      return sendJson(res, 400, { error: 'Expected a JSON body' });
+    }
+    const { data, error } = parsePayload(signInRequestSchema, body);
+    if (error) return sendJson(res, 400, { error: `Invalid sign-in request (${error})` });
+
+    try {
+      const user = await authProvider.authenticate(data);
+      if (!user) {
+        console.log(`Failed sign-in as ${data.username}`);
+        return sendJson(res, 401, { error: 'Wrong username or password' });
+      }
+      const { token, expiresAt } = tokens.issue(user);
+      console.log(`Signed in ${user.id} with the ${authProvider.name} provider`);
+      const response: SignInResponse = { token, user, expiresAt };
+      sendJson(res, 200, response);
+    } catch (err) {
+      console.error('Failed to sign in:', err);
+      sendJson(res, 500, { error: 'Failed to sign in' });
+    }
+  };
+
+  const httpServer = createServer((req, res) => {
+    // Lets hosting platforms check the service is up
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok' }));
+      return;
+    }
+    if (req.url === SIGN_IN_PATH) {
+      allowOrigin(req, res);
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Max-Age': '600'
+        });
+        res.end();
+      } else if (req.method === 'POST') {
+        void handleSignIn(req, res);
+      } else {
+        res.writeHead(405, { Allow: 'POST, OPTIONS' });
+        res.end();
+      }
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+
+  const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(httpServer, {
+    cors: { origin: corsOrigin }
+  });
+
+  // Only people who have signed in can connect; the client signs in again
+  // when it's refused
+  io.use((socket, next) => {
+    const user = tokens.verify(socket.handshake.auth?.token);
+    if (!user) {
+      console.log('Refused connection without a valid token:', socket.id);
+      return next(new Error(UNAUTHORIZED_ERROR));
+    }
+    socket.data.user = user;
+    next();
+  });
+
+  const presence = createPresenceTracker({
+    timeoutMs: presenceTimeoutMs,
+    onChange: (documentId) => {
+      io.to(roomName(documentId)).emit('presence_update', {
+        documentId,
+        participants: presence.getParticipants(documentId)
+      });
+    }
+  });
+
+  const sendError = (
+    socket: DocumentServerSocket,
+    code: DocumentErrorCode,
+    message: string,
+    documentId?: string,
+    request?: keyof ClientToServerEvents
+  ) => {
+    console.warn(`Document error for ${socket.id}:`, message);
+    socket.emit('document_error', { documentId, code, message, request });
+  };
+
+  // Anyone may write to a document nobody has written to yet
+  const resolveRole = async (documentId: string, userId: string): Promise<DocumentRole | null> => {
+    const { revision } = await store.getDocument(documentId);
+    return access.resolveRole(documentId, userId, revision === 0);
+  };
+
+  /**
+   * The user's role if it allows the request, otherwise null after telling
+   * them why
+   */
+  const authorize = async (
+    socket: DocumentServerSocket,
+    documentId: string,
+    required: DocumentRole,
+    request: keyof ClientToServerEvents
+  ): Promise<DocumentRole | null> => {
+    const role = await resolveRole(documentId, socket.data.user.id);
+    if (hasRole(role, required)) return role;
+    const article = required === 'owner' || required === 'editor' ? 'an' : 'a';
+    const message = role
+      ? `You need to be ${article} ${required} of this document to do that`
+      : "You don't have access to this document";
+    sendError(socket, 'forbidden', message, documentId, request);
+    return null;
+  };
+
+  // Owners also get the members and links, to manage them
+  const sendAccess = async (socket: RoomSocket, documentId: string, role: DocumentRole) => {
+    const { members, links } = await access.getAccess(documentId);
+    if (role === 'owner') {
+      socket.emit('document_access', { documentId, role, members, links });
+    } else {
+      socket.emit('document_access', { documentId, role, unclaimed: members.length === 0 });
+    }
+  };
+
+  // Tells everyone in a document about their role after access changed,
+  // and sends away anyone who no longer has one
+  const refreshAccess = async (documentId: string) => {
+    const current = await access.getAccess(documentId);
+    const sockets = await io.in(roomName(documentId)).fetchSockets();
+    await Promise.all(sockets.map(async (socket) => {
+      const role = findRole(current, socket.data.user.id);
+      if (role) return sendAccess(socket, documentId, role);
+      console.log(`Removing ${socket.data.user.id} from ${documentId}, their access was revoked`);
+      socket.leave(roomName(documentId));
+      presence.removeSocket(documentId, socket.id);
+      socket.emit('document_error', {
+        documentId,
+        code: 'forbidden',
+        message: 'Your access to this document was removed',
+        request: 'join_document'
+      });
+    }));
+  };
+
+  // The first write to a document creates it, and makes the writer its owner
+  const claimNewDocument = async (documentId: string, user: AuthUser) => {
+    if (await access.claim(documentId, user)) {
+      await refreshAccess(documentId);
+    }
+  };
+
+  io.on('connection', (socket) => {
+    const { user } = socket.data;
+    console.log('Client connected:', socket.id, 'as', user.id);
+
+    socket.on('join_document', async (payload: unknown) => {
+      const { data, error } = parsePayload(joinDocumentSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid join_document message (${error})`, undefined, 'join_document');
+
+      if (data.protocolVersion !== PROTOCOL_VERSION) {
+        return sendError(
+          socket,
+          'unsupported_protocol',
+          `Protocol version ${data.protocolVersion} is not supported, the server speaks version ${PROTOCOL_VERSION}. Please reload the page.`,
+          data.documentId,
+          'join_document'
+        );
+      }
+
+      const { documentId } = data;
+      try {
+        // A link that no longer works is fine for someone who's already a member
+        const redeemed = data.shareToken ? await access.redeemLink(documentId, user, data.shareToken) : null;
+        const role = redeemed ?? await resolveRole(documentId, user.id);
+        if (!role) {
+          const message = data.shareToken
+            ? 'This share link has expired or was revoked'
+            : "You don't have access to this document";
+          return sendError(socket, 'forbidden', message, documentId, 'join_document');
+        }
+
+        console.log(`Client ${data.clientId} joined ${documentId} as ${role}`);
+        socket.join(roomName(documentId));
+        socket.emit('document_joined', { documentId, protocolVersion: PROTOCOL_VERSION });
+        await sendAccess(socket, documentId, role);
+        presence.join(documentId, socket.id, {
+          clientId: data.clientId,
+          userId: user.id,
+          displayName: user.displayName,
+          color: data.color ?? '#6b7280',
+          joinedAt: new Date().toISOString()
+        });
+      } catch (err) {
+        console.error('Failed to join document:', err);
+        sendError(socket, 'internal', 'Failed to join document', documentId, 'join_document');
+      }
+    });
+
+    socket.on('leave_document', (payload: unknown) => {
+      const { data, error } = parsePayload(leaveDocumentSchema, payload);
+      if (error) return;
+      const room = roomName(data.documentId);
+      if (!socket.rooms.has(room)) return;
+      console.log(`Client ${data.clientId} left ${data.documentId}`);
+      socket.leave(room);
+      // Only the socket a participant joined from can take them out
+      if (presence.belongsTo(data.documentId, data.clientId, socket.id)) {
+        presence.leave(data.documentId, data.clientId);
+      }
+    });
+
+    socket.on('presence_heartbeat', (payload: unknown) => {
+      const { data, error } = parsePayload(presenceHeartbeatSchema, payload);
+      if (error) return;
+      // Only people let into the document may see who else is there
+      if (!socket.rooms.has(roomName(data.documentId))) return;
+      if (!presence.heartbeat(data.documentId, data.clientId, socket.id)) {
+        // Already timed out; the list without them prompts the client to rejoin
+        socket.emit('presence_update', {
+          documentId: data.documentId,
+          participants: presence.getParticipants(data.documentId)
+        });
+      }
+    });
+
+    socket.on('latency_ping', (payload: unknown) => {
+      const { data, error } = parsePayload(latencyPingSchema, payload);
+      if (error) return;
+      socket.emit('latency_pong', data);
+    });
+
+    socket.on('cursor_update', (payload: unknown) => {
+      const { data, error } = parsePayload(cursorUpdateSchema, payload);
+      if (error) return;
+      // Cursors aren't stored; only people in the document right now see them
+      const room = roomName(data.documentId);
+      if (!socket.rooms.has(room)) return;
+      // Nobody can move someone else's cursor
+      if (!presence.belongsTo(data.documentId, data.clientId, socket.id)) return;
+      socket.to(room).emit('cursor_updated', data);
+    });
+
+    socket.on('get_document', async (payload: unknown) => {
+      const { data, error } = parsePayload(getDocumentSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid get_document message (${error})`, undefined, 'get_document');
+      const { documentId } = data;
+
+      try {
+        if (!(await authorize(socket, documentId, 'viewer', 'get_document'))) return;
+        const { state, update, stateVector } = await store.getChangesSince(documentId, data.stateVector ?? {});
+        socket.emit('document_content', {
+          documentId,
+          content: getText(state.doc),
+          update,
+          stateVector,
+          revision: state.revision,
+          updatedAt: state.updatedAt,
+          format: state.format
+        });
+      } catch (err) {
+        console.error('Failed to load document:', err);
+        sendError(socket, 'internal', 'Failed to load document', documentId, 'get_document');
+      }
+    });
+
+    socket.on('document_update', async (payload: unknown) => {
+      const { data, error } = parsePayload(documentUpdateSchema, payload);
+      if (error) {
+        socket.emit('document_saved', { success: false, error: `Invalid document_update message (${error})` });
+        return;
+      }
+      const { documentId, update, clientId, baseRevision, updateId } = data;
+
+      try {
+        const role = await resolveRole(documentId, user.id);
+        if (!hasRole(role, 'editor')) {
+          console.log(`Refused save from ${clientId}, ${user.id} can't edit ${documentId}`);
+          socket.emit('document_saved', {
+            documentId,
+            updateId,
+            success: false,
+            error: "You don't have permission to edit this document"
+          });
+          return;
+        }
+
+        const { state, changed, stale, duplicate, foreign, revision } = await store.mergeUpdate(
+          documentId,
+          update,
+          baseRevision,
+          { clientId, userId: user.id, displayName: user.displayName },
+          updateId
+        );
+        const stateVector = getStateVector(state.doc);
+
+        if (duplicate) {
+          console.log(`Update ${updateId} from ${clientId} was already merged as revision ${revision}`);
+          socket.emit('document_saved', {
+            documentId,
+            updateId,
+            success: true,
+            duplicate: true,
+            stateVector,
+            revision,
+            updatedAt: state.updatedAt
+          });
+          return;
+        }
+
+        if (foreign) {
+          console.log(`Refused save from ${clientId}, it adds characters typed under another client's id`);
+          socket.emit('document_saved', {
+            documentId,
+            updateId,
+            success: false,
+            error: 'The update adds characters on behalf of another client'
+          });
+          return;
+        }
+
+        if (stale) {
+          console.log(`Refused save from ${clientId} based on revision ${baseRevision}, document is at ${state.revision}`);
+          socket.emit('document_saved', {
+            documentId,
+            updateId,
+            success: false,
+            conflict: true,
+            stateVector,
+            revision: state.revision,
+            updatedAt: state.updatedAt,
+            error: 'The document was changed by someone else since your last sync'
+          });
+          return;
+        }
+
+        socket.emit('document_saved', {
+          documentId,
+          updateId,
+          success: true,
+          stateVector,
+          revision,
+          updatedAt: state.updatedAt
+        });
+
+        if (changed && revision === 1) {
+          await claimNewDocument(documentId, user);
+        }
+
+        if (changed) {
+          socket.to(roomName(documentId)).emit('document_updated', {
+            documentId,
+            update,
+            stateVector,
+            clientId,
+            userId: user.id,
+            displayName: user.displayName,
+            revision,
+            updatedAt: state.updatedAt
+          });
+        }
+      } catch (err) {
+        console.error('Failed to save document:', err);
+        socket.emit('document_saved', { documentId, updateId, success: false, error: 'Failed to save document' });
+      }
+    });
+
+    socket.on('set_document_format', async (payload: unknown) => {
+      const { data, error } = parsePayload(setDocumentFormatSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid set_document_format message (${error})`, undefined, 'set_document_format');
+      const { documentId, format } = data;
+
+      try {
+        if (!(await authorize(socket, documentId, 'editor', 'set_document_format'))) return;
+        const state = await store.setFormat(documentId, format);
+        if (state.revision === 0) {
+          await claimNewDocument(documentId, user);
+        }
+        console.log(`${user.id} made ${documentId} ${format}`);
+        io.to(roomName(documentId)).emit('document_format', { documentId, format });
+      } catch (err) {
+        console.error('Failed to change document format:', err);
+        sendError(socket, 'internal', 'Failed to change how the document is shown', documentId, 'set_document_format');
+      }
+    });
+
+    socket.on('claim_document', async (payload: unknown) => {
+      const { data, error } = parsePayload(claimDocumentSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid claim_document message (${error})`, undefined, 'claim_document');
+      const { documentId } = data;
+
+      try {
+        if (!(await authorize(socket, documentId, 'viewer', 'claim_document'))) return;
+        if (!(await access.claim(documentId, user))) {
+          return sendError(socket, 'forbidden', 'Someone already owns this document', documentId, 'claim_document');
+        }
+        await refreshAccess(documentId);
+      } catch (err) {
+        console.error('Failed to claim document:', err);
+        sendError(socket, 'internal', 'Failed to claim the document', documentId, 'claim_document');
+      }
+    });
+
+    socket.on('list_revisions', async (payload: unknown) => {
+      const { data, error } = parsePayload(listRevisionsSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid list_revisions message (${error})`, undefined, 'list_revisions');
+      const { documentId } = data;
+
+      try {
+        if (!(await authorize(socket, documentId, 'viewer', 'list_revisions'))) return;
+        const revisions = await store.listRevisions(documentId, data.limit);
+        socket.emit('revision_list', {
+          documentId,
+          revisions: revisions.map(({ revision, clientId, userId, displayName, createdAt, content }) => ({
+            revision,
+            clientId,
+            userId,
+            displayName,
+            createdAt,
+            length: content.length
+          }))
+        });
+      } catch (err) {
+        console.error('Failed to list revisions:', err);
+        sendError(socket, 'internal', 'Failed to load revision history', documentId, 'list_revisions');
+      }
+    });
+
+    socket.on('get_revision', async (payload: unknown) => {
+      const { data, error } = parsePayload(getRevisionSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid get_revision message (${error})`, undefined, 'get_revision');
+      const { documentId } = data;
+
+      try {
+        if (!(await authorize(socket, documentId, 'viewer', 'get_revision'))) return;
+        const revision = await store.getRevision(documentId, data.revision);
+        if (!revision) {
+          return sendError(socket, 'not_found', `Revision ${data.revision} was not found`, documentId, 'get_revision');
+        }
+        socket.emit('revision_content', {
+          documentId,
+          revision: revision.revision,
+          clientId: revision.clientId,
+          userId: revision.userId,
+          displayName: revision.displayName,
+          createdAt: revision.createdAt,
+          content: revision.content
+        });
+      } catch (err) {
+        console.error('Failed to load revision:', err);
+        sendError(socket, 'internal', 'Failed to load revision', documentId, 'get_revision');
+      }
+    });
+
+    socket.on('list_documents', async (payload: unknown) => {
+      const { data, error } = parsePayload(listDocumentsSchema, payload ?? {});
+      if (error) return sendError(socket, 'invalid_payload', `Invalid list_documents message (${error})`, undefined, 'list_documents');
+
+      try {
+        // Documents nobody has claimed yet are listed for everyone
+        const documents = await store.listDocuments(data.limit, summary => access.canOpen(summary.id, user.id));
+        socket.emit('document_list', { documents });
+      } catch (err) {
+        console.error('Failed to list documents:', err);
+        sendError(socket, 'internal', 'Failed to list documents', undefined, 'list_documents');
+      }
+    });
+
+    socket.on('set_member_role', async (payload: unknown) => {
+      const { data, error } = parsePayload(setMemberRoleSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid set_member_role message (${error})`, undefined, 'set_member_role');
+      const { documentId, userId, role } = data;
+
+      try {
+        if (!(await authorize(socket, documentId, 'owner', 'set_member_role'))) return;
+        const { members } = await access.getAccess(documentId);
+        if (!members.some(member => member.userId === userId)) {
+          return sendError(socket, 'not_found', `${userId} isn't a member of this document`, documentId, 'set_member_role');
+        }
+        const owners = members.filter(member => member.role === 'owner');
+        if (role !== 'owner' && owners.length === 1 && owners[0].userId === userId) {
+          return sendError(socket, 'forbidden', 'A document needs at least one owner', documentId, 'set_member_role');
+        }
+
+        console.log(`${user.id} ${role ? `made ${userId} ${role}` : `removed ${userId}`} in ${documentId}`);
+        await access.setMemberRole(documentId, userId, role);
+        await refreshAccess(documentId);
+      } catch (err) {
+        console.error('Failed to change member role:', err);
+        sendError(socket, 'internal', 'Failed to change who has access', documentId, 'set_member_role');
+      }
+    });
+
+    socket.on('create_share_link', async (payload: unknown) => {
+      const { data, error } = parsePayload(createShareLinkSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid create_share_link message (${error})`, undefined, 'create_share_link');
+      const { documentId } = data;
+
+      try {
+        if (!(await authorize(socket, documentId, 'owner', 'create_share_link'))) return;
+        const link = await access.createLink(documentId, user, data.role, data.expiresAt);
+        console.log(`${user.id} created a ${link.role} link for ${documentId}`);
+        await refreshAccess(documentId);
+      } catch (err) {
+        console.error('Failed to create share link:', err);
+        sendError(socket, 'internal', 'Failed to create share link', documentId, 'create_share_link');
+      }
+    });
+
+    socket.on('revoke_share_link', async (payload: unknown) => {
+      const { data, error } = parsePayload(revokeShareLinkSchema, payload);
+      if (error) return sendError(socket, 'invalid_payload', `Invalid revoke_share_link message (${error})`, undefined, 'revoke_share_link');
+      const { documentId } = data;
+
+      try {
+        if (!(await authorize(socket, documentId, 'owner', 'revoke_share_link'))) return;
+        if (!(await access.revokeLink(documentId, data.token))) {
+          return sendError(socket, 'not_found', 'That share link was already revoked', documentId, 'revoke_share_link');
+        }
+        console.log(`${user.id} revoked a link for ${documentId}`);
+        await refreshAccess(documentId);
+      } catch (err) {
+        console.error('Failed to revoke share link:', err);
+        sendError(socket, 'internal', 'Failed to revoke share link', documentId, 'revoke_share_link');
+      }
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log('Client disconnected:', socket.id, reason);
+      presence.disconnect(socket.id);
+    });
+  });
+
+  return {
+    io,
+    httpServer,
+    store,
+    listen: (port: number) => new Promise<void>(resolve => httpServer.listen(port, resolve)),
+    close: () => new Promise<void>(resolve => {
+      presence.stop();
+      io.close(() => resolve());
+    })
+  };
+};
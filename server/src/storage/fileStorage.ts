@@ -0,0 +1,144 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { MAX_REVISIONS } from './types';
+import type { DocumentStorage, DocumentSummary, StoredAccess, StoredDocument, StoredRevision } from './types';
+import { summarizeDocument } from './summarize';
+
+// How far a history may grow past MAX_REVISIONS before it's rewritten, so
+// it isn't rewritten on every save
+const COMPACTION_SLACK = 100;
+
+// A line cut short by a crash is skipped rather than failing the whole history
+const parseRevision = (line: string): StoredRevision | null => {
+  try {
+    return JSON.parse(line) as StoredRevision;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Stores each document as a JSON file in a directory
+ * Writes go to a temporary file first and are renamed into place, so a
+ * crash mid-write never leaves a truncated document behind. Revision
+ * snapshots are appended to one JSON-lines file per document under
+ * history/, which keeps the latest MAX_REVISIONS, and who has access is
+ * kept under access/.
+ */
+export const createFileStorage = (dataDir: string): DocumentStorage => {
+  const filePath = (documentId: string) =>
+    path.join(dataDir, `${encodeURIComponent(documentId)}.json`);
+  const historyDir = path.join(dataDir, 'history');
+  const historyPath = (documentId: string) =>
+    path.join(historyDir, `${encodeURIComponent(documentId)}.jsonl`);
+
+  const accessDir = path.join(dataDir, 'access');
+  const accessPath = (documentId: string) =>
+    path.join(accessDir, `${encodeURIComponent(documentId)}.json`);
+
+  const ensureDir = Promise.all([
+    fs.mkdir(historyDir, { recursive: true }),
+    fs.mkdir(accessDir, { recursive: true })
+  ]);
+
+  const writeFileAtomically = async (target: string, data: string) => {
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, data, 'utf8');
+    await fs.rename(temp, target);
+  };
+
+  // Oldest first, without parsing them
+  const readHistoryLines = async (documentId: string): Promise<string[]> => {
+    try {
+      const raw = await fs.readFile(historyPath(documentId), 'utf8');
+      return raw.split('\n').filter(line => line.trim() !== '');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+  };
+
+  // Lines in each history file, counted the first time it's appended to.
+  // The document store serializes writes per document, so appends and
+  // rewrites of one history never overlap.
+  const historyLengths = new Map<string, number>();
+
+  return {
+    async load(documentId: string): Promise<StoredDocument | null> {
+      await ensureDir;
+      try {
+        const raw = await fs.readFile(filePath(documentId), 'utf8');
+        return JSON.parse(raw) as StoredDocument;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async save(document: StoredDocument): Promise<void> {
+      await ensureDir;
+      await writeFileAtomically(filePath(document.id), JSON.stringify(document));
+    },
+
+    async list(): Promise<DocumentSummary[]> {
+      await ensureDir;
+      const files = (await fs.readdir(dataDir)).filter(file => file.endsWith('.json'));
+      const summaries = await Promise.all(files.map(async file => {
+        const raw = await fs.readFile(path.join(dataDir, file), 'utf8');
+        return summarizeDocument(JSON.parse(raw) as StoredDocument);
+      }));
+      return summaries;
+    },
+
+    async saveRevision(revision: StoredRevision): Promise<void> {
+      await ensureDir;
+      const { documentId } = revision;
+      const length = (historyLengths.get(documentId) ?? (await readHistoryLines(documentId)).length) + 1;
+      await fs.appendFile(historyPath(documentId), `${JSON.stringify(revision)}\n`, 'utf8');
+      if (length <= MAX_REVISIONS + COMPACTION_SLACK) {
+        historyLengths.set(documentId, length);
+        return;
+      }
+
+      const kept = (await readHistoryLines(documentId)).slice(-MAX_REVISIONS);
+      await writeFileAtomically(historyPath(documentId), kept.map(line => `${line}\n`).join(''));
+      historyLengths.set(documentId, kept.length);
+    },
+
+    async listRevisions(documentId: string, limit: number): Promise<StoredRevision[]> {
+      await ensureDir;
+      const lines = await readHistoryLines(documentId);
+      return lines.slice(-limit).reverse().map(parseRevision).filter(Boolean);
+    },
+
+    async loadRevision(documentId: string, revision: number): Promise<StoredRevision | null> {
+      await ensureDir;
+      // Only the line with the revision number as a key is parsed; text
+      // inside the snapshot has its quotes escaped, so it can't match
+      const keys = [`"revision":${revision},`, `"revision":${revision}}`];
+      const lines = await readHistoryLines(documentId);
+      for (const line of lines) {
+        if (!keys.some(key => line.includes(key))) continue;
+        const parsed = parseRevision(line);
+        if (parsed?.revision === revision) return parsed;
+      }
+      return null;
+    },
+
+    async loadAccess(documentId: string): Promise<StoredAccess | null> {
+      await ensureDir;
+      try {
+        const raw = await fs.readFile(accessPath(documentId), 'utf8');
+        return JSON.parse(raw) as StoredAccess;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async saveAccess(access: StoredAccess): Promise<void> {
+      await ensureDir;
+      await writeFileAtomically(accessPath(access.documentId), JSON.stringify(access));
+    }
+  };
+};
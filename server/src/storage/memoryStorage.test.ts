@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryStorage } from './memoryStorage';
+import { MAX_REVISIONS, StoredRevision } from './types';
+
+const revision = (number: number): StoredRevision => ({
+  documentId: 'doc',
+  revision: number,
+  clientId: 'a',
+  createdAt: new Date(0).toISOString(),
+  content: `revision ${number}`
+});
+
+describe('memory storage', () => {
+  it('keeps only the latest revisions', async () => {
+    const storage = createMemoryStorage();
+    for (let number = 1; number <= MAX_REVISIONS + 10; number++) {
+      await storage.saveRevision(revision(number));
+    }
+
+    const revisions = await storage.listRevisions('doc', MAX_REVISIONS + 10);
+    expect(revisions).toHaveLength(MAX_REVISIONS);
+    expect(revisions[0].revision).toBe(MAX_REVISIONS + 10);
+    expect(await storage.loadRevision('doc', 10)).toBeNull();
+    expect((await storage.loadRevision('doc', 11))?.content).toBe('revision 11');
+  });
+});
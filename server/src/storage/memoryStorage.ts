@@ -0,0 +1,57 @@
+import { MAX_REVISIONS } from './types';
+import type { DocumentStorage, DocumentSummary, StoredAccess, StoredDocument, StoredRevision } from './types';
+import { summarizeDocument } from './summarize';
+
+/**
+ * Keeps documents, and the latest MAX_REVISIONS revisions of each, in
+ * memory; everything is lost when the process exits
+ * Useful for local development and tests.
+ */
+export const createMemoryStorage = (): DocumentStorage => {
+  const documents = new Map<string, StoredDocument>();
+  const revisions = new Map<string, StoredRevision[]>();
+  const access = new Map<string, StoredAccess>();
+
+  // Copies keep callers from mutating stored state by accident
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    async load(documentId: string): Promise<StoredDocument | null> {
+      const document = documents.get(documentId);
+      return document ? clone(document) : null;
+    },
+
+    async save(document: StoredDocument): Promise<void> {
+      documents.set(document.id, clone(document));
+    },
+
+    async list(): Promise<DocumentSummary[]> {
+      return [...documents.values()].map(summarizeDocument);
+    },
+
+    async saveRevision(revision: StoredRevision): Promise<void> {
+      const history = revisions.get(revision.documentId) ?? [];
+      history.push(clone(revision));
+      if (history.length > MAX_REVISIONS) history.shift();
+      revisions.set(revision.documentId, history);
+    },
+
+    async listRevisions(documentId: string, limit: number): Promise<StoredRevision[]> {
+      return clone((revisions.get(documentId) ?? []).slice(-limit).reverse());
+    },
+
+    async loadRevision(documentId: string, revision: number): Promise<StoredRevision | null> {
+      const stored = revisions.get(documentId)?.find(r => r.revision === revision);
+      return stored ? clone(stored) : null;
+    },
+
+    async loadAccess(documentId: string): Promise<StoredAccess | null> {
+      const stored = access.get(documentId);
+      return stored ? clone(stored) : null;
+    },
+
+    async saveAccess(stored: StoredAccess): Promise<void> {
+      access.set(stored.documentId, clone(stored));
+    }
+  };
+};
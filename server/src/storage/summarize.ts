@@ -0,0 +1,18 @@
+import { toPlainText } from '@/utils/richText';
+import type { DocumentSummary, StoredDocument } from './types';
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Builds the listing entry for a document
+ * Documents have no separate title, so the first non-empty line stands in.
+ */
+export const summarizeDocument = ({ id, content, revision, updatedAt }: StoredDocument): DocumentSummary => {
+  const firstLine = toPlainText(content).split('\n').find(line => line.trim() !== '')?.trim() ?? '';
+  return {
+    id,
+    title: firstLine.slice(0, MAX_TITLE_LENGTH),
+    revision,
+    updatedAt
+  };
+};
@@ -0,0 +1,71 @@
+import type { CRDTUpdate } from '@/utils/crdt';
+import type { DocumentFormat, DocumentMember, DocumentSummary, ShareLink } from '@/utils/protocol';
+
+export type { DocumentSummary };
+
+/**
+ * A document as kept by storage backends
+ * The CRDT state is the source of truth; `content` is its text, stored
+ * alongside so backends can list and inspect documents without decoding it.
+ */
+export interface StoredDocument {
+  id: string;
+  update: CRDTUpdate;
+  content: string;
+  revision: number;
+  updatedAt: string;
+  // Missing from documents saved before formats were kept, which are plain
+  format?: DocumentFormat;
+  // Recently merged update ids and the revision each produced, oldest
+  // first; missing from documents saved before they were kept
+  appliedUpdates?: [string, number][];
+}
+
+// Revisions every backend keeps per document; older ones are dropped from
+// the history
+export const MAX_REVISIONS = 500;
+
+/**
+ * Snapshot of a document's text as of one revision, and who made it
+ */
+export interface StoredRevision {
+  documentId: string;
+  revision: number;
+  clientId: string;
+  // Missing from revisions saved before sign-in existed
+  userId?: string;
+  displayName?: string;
+  createdAt: string;
+  content: string;
+}
+
+/**
+ * Who may open a document and the links that let more people in
+ * Kept apart from the document, since it's needed before anything has
+ * been saved to it.
+ */
+export interface StoredAccess {
+  documentId: string;
+  members: DocumentMember[];
+  links: ShareLink[];
+}
+
+/**
+ * Pluggable persistence for documents
+ * Implementations only need to store and return whole documents and their
+ * revision snapshots; merging and revision numbering happen in the
+ * document server.
+ */
+export interface DocumentStorage {
+  load(documentId: string): Promise<StoredDocument | null>;
+  save(document: StoredDocument): Promise<void>;
+  list(): Promise<DocumentSummary[]>;
+  saveRevision(revision: StoredRevision): Promise<void>;
+  // The newest `limit` revisions, newest first; backends drop all but the
+  // latest MAX_REVISIONS
+  listRevisions(documentId: string, limit: number): Promise<StoredRevision[]>;
+  loadRevision(documentId: string, revision: number): Promise<StoredRevision | null>;
+  // Null for documents nobody has opened since access control existed
+  loadAccess(documentId: string): Promise<StoredAccess | null>;
+  saveAccess(access: StoredAccess): Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { Fragment, ReactNode } from "react";
+import { useSession } from "@/hooks/useSession";
+import SignIn from "@/pages/SignIn";
+
+interface AuthGateProps {
+  children: ReactNode;
+}
+
+/**
+ * Renders the app only for someone signed in, and the sign-in page
+ * otherwise; signing out, or the server refusing the session, comes back
+ * here
+ */
+const AuthGate = ({ children }: AuthGateProps) => {
+  const session = useSession();
+  if (!session) return <SignIn />;
+  // Remounting for a different user drops the previous user's state
+  return <Fragment key={session.user.id}>{children}</Fragment>;
+};
+
+export default AuthGate;
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTheme } from "next-themes";
+import { FileText } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command as CommandMenu,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from "@/components/ui/command";
+import { useCommands, useRegisteredCommands } from "@/hooks/useCommands";
+import { useDocumentList } from "@/hooks/useDocumentList";
+import { Command, formatShortcut, getCommands, matchesShortcut } from "@/utils/commands";
+import { generateDocumentId } from "@/utils/documents";
+
+const OPEN_SHORTCUT = "Mod+K";
+
+// The palette's own groups come after those of the page being shown
+const GLOBAL_GROUPS = ["Go to", "Theme"];
+
+interface DocumentItemsProps {
+  onOpen: (documentId: string) => void;
+}
+
+/**
+ * Documents to switch to, from the server and this device; only mounted
+ * while the palette is open so the list is fetched when it's needed
+ */
+const DocumentItems = ({ onOpen }: DocumentItemsProps) => {
+  const { documents, recentDocuments } = useDocumentList();
+
+  // Recently opened first, then the rest of the server's
+  const recentIds = new Set(recentDocuments.map(doc => doc.id));
+  const items = [
+    ...recentDocuments.map(({ id, title }) => ({ id, title })),
+    ...documents.filter(doc => !recentIds.has(doc.id)).map(({ id, title }) => ({ id, title }))
+  ];
+
+  if (items.length === 0) return null;
+
+  return (
+    <CommandGroup heading="Switch document">
+      {items.map(doc => (
+        <CommandItem
+          key={doc.id}
+          value={`document ${doc.title} ${doc.id}`}
+          onSelect={() => onOpen(doc.id)}
+        >
+          <FileText className="mr-2 h-4 w-4" />
+          <span className="truncate">{doc.title || `Untitled (${doc.id})`}</span>
+        </CommandItem>
+      ))}
+    </CommandGroup>
+  );
+};
+
+/**
+ * Ctrl/Cmd+K palette listing every registered command, and the keyboard
+ * shortcuts those commands declare
+ */
+const CommandPalette = () => {
+  const [open, setOpen] = useState(false);
+  const commands = useRegisteredCommands();
+  const navigate = useNavigate();
+  const { setTheme } = useTheme();
+  const openRef = useRef(open);
+  openRef.current = open;
+  // Chosen in the palette; runs once the palette has closed and given
+  // focus back, so commands that move focus keep it
+  const pendingRef = useRef<(() => void) | null>(null);
+
+  useCommands([
+    { id: 'app.documents', title: "All documents", group: "Go to", run: () => navigate('/') },
+    {
+      id: 'app.new-document',
+      title: "New document",
+      group: "Go to",
+      keywords: ["create"],
+      run: () => navigate(`/d/${generateDocumentId()}`)
+    },
+    { id: 'theme.light', title: "Light theme", group: "Theme", keywords: ["appearance"], run: () => setTheme('light') },
+    { id: 'theme.dark', title: "Dark theme", group: "Theme", keywords: ["appearance"], run: () => setTheme('dark') },
+    {
+      id: 'theme.system',
+      title: "System theme",
+      group: "Theme",
+      keywords: ["appearance", "automatic"],
+      run: () => setTheme('system')
+    }
+  ]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Editors use some shortcuts for themselves while focused
+      if (e.defaultPrevented) return;
+
+      if (matchesShortcut(e, OPEN_SHORTCUT)) {
+        e.preventDefault();
+        setOpen(previous => !previous);
+        return;
+      }
+      if (openRef.current) return;
+
+      const command = getCommands().find(candidate =>
+        candidate.enabled !== false && candidate.shortcut && matchesShortcut(e, candidate.shortcut)
+      );
+      if (command) {
+        e.preventDefault();
+        console.log("CommandPalette: Running", command.id, "from its shortcut");
+        command.run();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  const choose = (run: () => void) => {
+    pendingRef.current = run;
+    setOpen(false);
+  };
+
+  const handleCloseAutoFocus = (e: Event) => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+    e.preventDefault();
+    pending();
+  };
+
+  const enabled = commands.filter(command => command.enabled !== false);
+  const groups = [...new Set(enabled.map(command => command.group))]
+    .sort((a, b) => Number(GLOBAL_GROUPS.includes(a)) - Number(GLOBAL_GROUPS.includes(b)));
+
+  const renderItem = (command: Command) => (
+    <CommandItem
+      key={command.id}
+      value={[command.group, command.title, ...(command.keywords ?? [])].join(' ')}
+      onSelect={() => {
+        console.log("CommandPalette: Running", command.id);
+        choose(command.run);
+      }}
+    >
+      {command.title}
+      {command.shortcut && <CommandShortcut>{formatShortcut(command.shortcut)}</CommandShortcut>}
+    </CommandItem>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg" onCloseAutoFocus={handleCloseAutoFocus}>
+        <DialogTitle className="sr-only">Commands</DialogTitle>
+        <CommandMenu className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5">
+          <CommandInput placeholder="Type a command or search documents..." />
+          <CommandList>
+            <CommandEmpty>No matching commands.</CommandEmpty>
+            {groups.map(group => (
+              <CommandGroup key={group} heading={group}>
+                {enabled.filter(command => command.group === group).map(renderItem)}
+              </CommandGroup>
+            ))}
+            {open && <DocumentItems onOpen={documentId => choose(() => navigate(`/d/${encodeURIComponent(documentId)}`))} />}
+          </CommandList>
+        </CommandMenu>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
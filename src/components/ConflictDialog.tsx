@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { ConflictResolution, MergeChunk } from "@/utils/diff";
+
+interface ConflictDialogProps {
+  // Chunks from the three-way merge, or null when there's nothing to resolve
+  chunks: MergeChunk[] | null;
+  onResolve: (resolutions: ConflictResolution[]) => void;
+}
+
+const LinesPreview = ({ label, lines }: { label: string; lines: string[] }) => (
+  <div className="min-w-0 flex-1">
+    <p className="text-xs font-medium text-muted-foreground mb-1">{label}</p>
+    <pre className="text-xs bg-muted/50 border rounded p-2 whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+      {lines.length > 0 ? lines.join("\n") : <span className="text-muted-foreground italic">(removed)</span>}
+    </pre>
+  </div>
+);
+
+/**
+ * Lets the user pick, for each place both versions changed, which one to keep
+ * Can't be dismissed: saving stays blocked until every conflict is settled.
+ */
+const ConflictDialog = ({ chunks, onResolve }: ConflictDialogProps) => {
+  const conflicts = (chunks ?? []).filter(
+    (chunk): chunk is Extract<MergeChunk, { type: 'conflict' }> => chunk.type === 'conflict'
+  );
+  const [choices, setChoices] = useState<(ConflictResolution | undefined)[]>([]);
+
+  // A new merge starts with nothing chosen
+  useEffect(() => {
+    setChoices([]);
+  }, [chunks]);
+
+  const setChoice = (index: number, value: string) => {
+    if (!value) return;
+    setChoices(previous => {
+      const next = [...previous];
+      next[index] = value as ConflictResolution;
+      return next;
+    });
+  };
+
+  const allChosen = conflicts.every((_, index) => choices[index] !== undefined);
+
+  return (
+    <AlertDialog open={conflicts.length > 0}>
+      <AlertDialogContent className="max-w-3xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Resolve conflicting changes</AlertDialogTitle>
+          <AlertDialogDescription>
+            Someone else saved changes to the same lines you edited. Choose which version to keep
+            in each place; everything else has been merged automatically.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4 pr-1">
+          {conflicts.map((conflict, index) => (
+            <div key={index} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">
+                  Conflict {index + 1} of {conflicts.length}
+                </span>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={choices[index] ?? ""}
+                  onValueChange={value => setChoice(index, value)}
+                >
+                  <ToggleGroupItem value="local" className="text-xs h-7">Keep mine</ToggleGroupItem>
+                  <ToggleGroupItem value="remote" className="text-xs h-7">Keep theirs</ToggleGroupItem>
+                  <ToggleGroupItem value="both" className="text-xs h-7">Keep both</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+              <div className="flex gap-3">
+                <LinesPreview label="Your version" lines={conflict.local} />
+                <LinesPreview label="Their version" lines={conflict.remote} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => onResolve(conflicts.map(() => 'remote'))}>
+            Keep all theirs
+          </Button>
+          <Button variant="outline" onClick={() => onResolve(conflicts.map(() => 'local'))}>
+            Keep all mine
+          </Button>
+          <Button disabled={!allChosen} onClick={() => onResolve(choices as ConflictResolution[])}>
+            Apply choices
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ConflictDialog;
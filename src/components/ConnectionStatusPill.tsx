@@ -0,0 +1,75 @@
+import { formatDistanceToNow } from "date-fns";
+import { CloudOff, Loader2, RefreshCw, WifiOff } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useConnectionStatus } from "@/hooks/useConnectionStatus";
+
+/**
+ * Toolbar pill showing whether we're connected to the server, and how fast
+ * Once automatic reconnection gives up it offers to try again.
+ */
+const ConnectionStatusPill = () => {
+  const { state, attempt, maxAttempts, latency, lastConnectedAt, reconnect } = useConnectionStatus();
+
+  const since = lastConnectedAt
+    ? `Last connected ${formatDistanceToNow(new Date(lastConnectedAt), { addSuffix: true })}`
+    : "Not connected yet";
+
+  switch (state) {
+    case 'connected':
+      return (
+        <Badge
+          variant="secondary"
+          className="text-xs bg-green-50 text-green-800 font-normal"
+          title="Connected to the server"
+        >
+          <span className="h-2 w-2 mr-1.5 rounded-full bg-green-500" />
+          Online{latency !== null && ` · ${latency} ms`}
+        </Badge>
+      );
+    case 'connecting':
+      return (
+        <Badge variant="secondary" className="text-xs bg-muted text-muted-foreground font-normal">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Connecting...
+        </Badge>
+      );
+    case 'reconnecting':
+      return (
+        <Badge variant="secondary" className="text-xs bg-yellow-100 text-yellow-800 font-normal" title={since}>
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Reconnecting{attempt > 0 && ` (${attempt}/${maxAttempts})`}
+        </Badge>
+      );
+    case 'offline':
+      return (
+        <Badge
+          variant="secondary"
+          className="text-xs bg-muted text-foreground font-normal"
+          title={`No network connection. ${since}.`}
+        >
+          <WifiOff className="h-3 w-3 mr-1" />
+          No network
+        </Badge>
+      );
+    case 'failed':
+      return (
+        <div className="flex items-center gap-1">
+          <Badge
+            variant="secondary"
+            className="text-xs bg-red-100 text-red-800 font-normal"
+            title={`Couldn't reach the server after ${maxAttempts} attempts. ${since}.`}
+          >
+            <CloudOff className="h-3 w-3 mr-1" />
+            Disconnected
+          </Badge>
+          <Button variant="outline" size="sm" onClick={reconnect} className="h-6 px-2 text-xs">
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Reconnect now
+          </Button>
+        </div>
+      );
+  }
+};
+
+export default ConnectionStatusPill;
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { Columns2, Rows2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import DiffViewer, { DiffMode } from "@/components/DiffViewer";
+import { useRevisionHistory, loadRevision } from "@/hooks/useRevisionHistory";
+import { toPlainText } from "@/utils/richText";
+
+/**
+ * Fixed text that can be compared, such as a snapshot taken when someone
+ * else's update arrived
+ */
+export interface TextSource {
+  key: string;
+  label: string;
+  text: string;
+}
+
+/**
+ * Which two versions to compare, by source key:
+ * "current", "saved", "revision:<n>" or the key of a TextSource
+ */
+export interface DiffComparison {
+  from: string;
+  to: string;
+}
+
+interface DiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId: string;
+  // What's in the editor, including unsaved changes
+  currentContent: string;
+  // The server's version the editor's changes are based on
+  savedContent: string;
+  comparison: DiffComparison;
+  textSources?: TextSource[];
+}
+
+interface SourceSelectProps {
+  value: string;
+  options: { key: string; label: string }[];
+  onChange: (key: string) => void;
+}
+
+const SourceSelect = ({ value, options, onChange }: SourceSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="h-8 text-xs w-56">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {options.map(option => (
+        <SelectItem key={option.key} value={option.key} className="text-xs">
+          {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const revisionKey = (revision: number) => `revision:${revision}`;
+
+const parseRevisionKey = (key: string): number | null => {
+  const match = /^revision:(\d+)$/.exec(key);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Compares any two versions of a document: the editor, the last saved
+ * version, stored revisions or snapshots passed in
+ */
+const DiffDialog = ({
+  open,
+  onOpenChange,
+  documentId,
+  currentContent,
+  savedContent,
+  comparison,
+  textSources = []
+}: DiffDialogProps) => {
+  const [from, setFrom] = useState(comparison.from);
+  const [to, setTo] = useState(comparison.to);
+  const [mode, setMode] = useState<DiffMode>('inline');
+  const [revisionTexts, setRevisionTexts] = useState<Record<number, string>>({});
+  const { revisions } = useRevisionHistory({ documentId, enabled: open });
+
+  // Each time the dialog is opened it starts from the requested comparison
+  useEffect(() => {
+    if (open) {
+      setFrom(comparison.from);
+      setTo(comparison.to);
+    }
+  }, [open, comparison]);
+
+  useEffect(() => {
+    setRevisionTexts({});
+  }, [documentId]);
+
+  // Fetch the revisions being compared that we don't have yet
+  useEffect(() => {
+    if (!open) return;
+    [from, to].map(parseRevisionKey).forEach(revision => {
+      if (revision === null || revisionTexts[revision] !== undefined) return;
+      loadRevision(documentId, revision)
+        .then(data => setRevisionTexts(previous => ({ ...previous, [revision]: data.content })))
+        .catch(err => console.error("Failed to load revision for comparison:", err));
+    });
+  }, [open, from, to, documentId, revisionTexts]);
+
+  const options = [
+    { key: 'current', label: 'Editor (including unsaved changes)' },
+    { key: 'saved', label: 'Last saved' },
+    ...textSources.map(({ key, label }) => ({ key, label })),
+    ...revisions.map(revision => ({
+      key: revisionKey(revision.revision),
+      label: `Revision ${revision.revision}${revision.displayName ? ` by ${revision.displayName}` : ''}`
+    }))
+  ];
+  // Revisions asked for before the list arrives still need a label
+  [from, to].forEach(key => {
+    const revision = parseRevisionKey(key);
+    if (revision !== null && !options.some(option => option.key === key)) {
+      options.push({ key, label: `Revision ${revision}` });
+    }
+  });
+
+  const labelFor = (key: string) => options.find(option => option.key === key)?.label ?? key;
+
+  const textFor = (key: string): string | null => {
+    if (key === 'current') return currentContent;
+    if (key === 'saved') return savedContent;
+    const revision = parseRevisionKey(key);
+    if (revision !== null) return revisionTexts[revision] ?? null;
+    return textSources.find(source => source.key === key)?.text ?? null;
+  };
+
+  // Rich-text documents are compared by their text, not their serialized form
+  const oldText = textFor(from);
+  const newText = textFor(to);
+  const oldPlainText = oldText === null ? null : toPlainText(oldText);
+  const newPlainText = newText === null ? null : toPlainText(newText);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+          <DialogDescription>
+            Lines removed are shown in red and lines added in green, with changed words highlighted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <SourceSelect value={from} options={options} onChange={setFrom} />
+          <span className="text-muted-foreground">with</span>
+          <SourceSelect value={to} options={options} onChange={setTo} />
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={mode}
+            onValueChange={value => value && setMode(value as DiffMode)}
+            className="ml-auto"
+          >
+            <ToggleGroupItem value="inline" className="text-xs h-8" aria-label="Inline">
+              <Rows2 className="h-3.5 w-3.5 mr-1" />
+              Inline
+            </ToggleGroupItem>
+            <ToggleGroupItem value="split" className="text-xs h-8" aria-label="Side by side">
+              <Columns2 className="h-3.5 w-3.5 mr-1" />
+              Side by side
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {oldPlainText === null || newPlainText === null ? (
+            <p className="text-sm text-muted-foreground">Loading revision...</p>
+          ) : (
+            <DiffViewer
+              oldText={oldPlainText}
+              newText={newPlainText}
+              mode={mode}
+              oldLabel={labelFor(from)}
+              newLabel={labelFor(to)}
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiffDialog;
@@ -0,0 +1,145 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { DiffLine, DiffRow, diffTexts } from "@/utils/diff";
+
+export type DiffMode = 'inline' | 'split';
+
+interface DiffViewerProps {
+  oldText: string;
+  newText: string;
+  mode: DiffMode;
+  oldLabel?: string;
+  newLabel?: string;
+}
+
+const LINE_STYLES = {
+  equal: "",
+  delete: "bg-red-50 dark:bg-red-950/50",
+  insert: "bg-green-50 dark:bg-green-950/50"
+};
+
+const WORD_STYLES = {
+  delete: "bg-red-200 dark:bg-red-900 rounded-sm",
+  insert: "bg-green-200 dark:bg-green-900 rounded-sm"
+};
+
+const LineText = ({ line, side }: { line: DiffLine; side: 'delete' | 'insert' }) => (
+  <>
+    {line.segments
+      ? line.segments.map((segment, index) => (
+          <span key={index} className={segment.changed ? WORD_STYLES[side] : undefined}>
+            {segment.text}
+          </span>
+        ))
+      : line.text}
+    {/* Keep empty lines from collapsing */}
+    {line.text === "" && " "}
+  </>
+);
+
+const Gutter = ({ number }: { number?: number }) => (
+  <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground select-none">{number ?? ""}</span>
+);
+
+const Marker = ({ symbol }: { symbol: string }) => (
+  <span className="w-4 shrink-0 text-muted-foreground select-none">{symbol}</span>
+);
+
+const InlineRows = ({ rows }: { rows: DiffRow[] }) => (
+  <>
+    {rows.flatMap((row, index) => {
+      if (row.type === 'equal') {
+        return [
+          <div key={index} className="flex">
+            <Gutter number={row.left?.number} />
+            <Gutter number={row.right?.number} />
+            <Marker symbol=" " />
+            <span className="flex-1 whitespace-pre-wrap break-words">
+              {row.left.text || " "}
+            </span>
+          </div>
+        ];
+      }
+      const lines = [];
+      if (row.left) {
+        lines.push(
+          <div key={`${index}-old`} className={cn("flex", LINE_STYLES.delete)}>
+            <Gutter number={row.left.number} />
+            <Gutter />
+            <Marker symbol="-" />
+            <span className="flex-1 whitespace-pre-wrap break-words">
+              <LineText line={row.left} side="delete" />
+            </span>
+          </div>
+        );
+      }
+      if (row.right) {
+        lines.push(
+          <div key={`${index}-new`} className={cn("flex", LINE_STYLES.insert)}>
+            <Gutter />
+            <Gutter number={row.right.number} />
+            <Marker symbol="+" />
+            <span className="flex-1 whitespace-pre-wrap break-words">
+              <LineText line={row.right} side="insert" />
+            </span>
+          </div>
+        );
+      }
+      return lines;
+    })}
+  </>
+);
+
+const SplitRows = ({ rows }: { rows: DiffRow[] }) => (
+  <>
+    {rows.map((row, index) => (
+      <div key={index} className="grid grid-cols-2">
+        <div className={cn("flex border-r", row.left && row.type !== 'equal' && LINE_STYLES.delete)}>
+          <Gutter number={row.left?.number} />
+          <span className="flex-1 whitespace-pre-wrap break-words">
+            {row.left && <LineText line={row.left} side="delete" />}
+          </span>
+        </div>
+        <div className={cn("flex", row.right && row.type !== 'equal' && LINE_STYLES.insert)}>
+          <Gutter number={row.right?.number} />
+          <span className="flex-1 whitespace-pre-wrap break-words">
+            {row.right && <LineText line={row.right} side="insert" />}
+          </span>
+        </div>
+      </div>
+    ))}
+  </>
+);
+
+/**
+ * Shows the differences between two texts line by line, with changed
+ * words highlighted, either inline or side by side
+ */
+const DiffViewer = ({ oldText, newText, mode, oldLabel = "Before", newLabel = "After" }: DiffViewerProps) => {
+  const rows = useMemo(() => diffTexts(oldText, newText), [oldText, newText]);
+  const changes = rows.filter(row => row.type !== 'equal').length;
+
+  return (
+    <div className="border rounded-md overflow-hidden text-xs font-mono">
+      {mode === 'split' ? (
+        <div className="grid grid-cols-2 border-b bg-muted/50 font-sans font-medium text-muted-foreground">
+          <div className="px-3 py-1.5 border-r">{oldLabel}</div>
+          <div className="px-3 py-1.5">{newLabel}</div>
+        </div>
+      ) : (
+        <div className="border-b bg-muted/50 px-3 py-1.5 font-sans font-medium text-muted-foreground">
+          {oldLabel} → {newLabel}
+        </div>
+      )}
+      {changes === 0 ? (
+        <p className="px-3 py-4 font-sans text-sm text-muted-foreground">No differences.</p>
+      ) : (
+        <div className="py-1 leading-relaxed">
+          {mode === 'split' ? <SplitRows rows={rows} /> : <InlineRows rows={rows} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffViewer;
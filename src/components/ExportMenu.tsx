@@ -0,0 +1,49 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, ExportFormat } from "@/utils/export";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+}
+
+/**
+ * Toolbar menu for saving the document as a file, or printing it to PDF
+ */
+const ExportMenu = ({ onExport }: ExportMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-2.5 text-xs"
+        >
+          <Download className="h-3.5 w-3.5 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map(({ format, label, extension }) => (
+          <DropdownMenuItem key={format} onSelect={() => onExport(format)}>
+            {label}
+            <DropdownMenuShortcut>{extension}</DropdownMenuShortcut>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => onExport('pdf')}>
+          Print or save as PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,75 @@
+import { ReactNode, useRef, useState } from "react";
+import { FileUp } from "lucide-react";
+
+interface FileDropZoneProps {
+  children: ReactNode;
+  onDropFile: (file: File) => void;
+  disabled?: boolean;
+}
+
+const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+/**
+ * Accepts a file dropped anywhere over its children, showing where it can
+ * be dropped while one is dragged over; dragged text is left to the editor
+ */
+const FileDropZone = ({ children, onDropFile, disabled = false }: FileDropZoneProps) => {
+  const [dragging, setDragging] = useState(false);
+  // Entering a child fires dragenter before the parent's dragleave
+  const depthRef = useRef(0);
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    e.preventDefault();
+    depthRef.current++;
+    setDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    depthRef.current = Math.max(0, depthRef.current - 1);
+    if (depthRef.current === 0) setDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    // Keep the browser from opening the file, or the editor from inserting it
+    e.preventDefault();
+    depthRef.current = 0;
+    setDragging(false);
+
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 1) {
+      console.log("FileDropZone: Dropped", files.length, "files, importing the first");
+    }
+    if (files[0]) onDropFile(files[0]);
+  };
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {dragging && (
+        <div className="pointer-events-none fixed inset-0 z-20 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <div className="flex flex-col items-center gap-2 rounded-lg border-2 border-dashed border-muted-foreground/50 px-10 py-8 text-muted-foreground">
+            <FileUp className="h-8 w-8" />
+            <p className="text-sm">Drop a text, Markdown, HTML or Word file to import it</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileDropZone;
@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  CaseSensitive,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  Regex,
+  WholeWord,
+  X
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Toggle } from "@/components/ui/toggle";
+import { MAX_MATCHES, SearchOptions, TextRange, findMatches, replaceMatches } from "@/utils/search";
+
+/**
+ * Asks the panel to take focus, optionally with a new query; a new key
+ * each time, so asking twice in a row works
+ */
+export interface FindRequest {
+  key: number;
+  query: string;
+  replace: boolean;
+}
+
+interface FindReplacePanelProps {
+  request: FindRequest;
+  content: string;
+  onClose: () => void;
+  // The matches to highlight in the editor and the current one
+  onMatchesChange: (matches: TextRange[], active: number | null) => void;
+  // Replacing produces the whole new text, applied as one edit; without
+  // it the panel only finds
+  onReplace?: (newContent: string) => void;
+  // Closing the panel selects the current match in the editor
+  onSelectMatch: (match: TextRange) => void;
+}
+
+/**
+ * Find and replace for the plain-text editor, with case-sensitive,
+ * whole-word and regular expression modes
+ */
+const FindReplacePanel = ({
+  request,
+  content,
+  onClose,
+  onMatchesChange,
+  onReplace,
+  onSelectMatch
+}: FindReplacePanelProps) => {
+  const [query, setQuery] = useState(request.query);
+  const [replacement, setReplacement] = useState("");
+  const [replaceOpen, setReplaceOpen] = useState(request.replace);
+  const showReplace = replaceOpen && onReplace !== undefined;
+  const [options, setOptions] = useState<SearchOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+  const [active, setActive] = useState(0);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const onMatchesChangeRef = useRef(onMatchesChange);
+  onMatchesChangeRef.current = onMatchesChange;
+
+  const { matches, error } = useMemo(() => findMatches(content, query, options), [content, query, options]);
+  // Edits can remove matches from under the current one
+  const current = matches.length > 0 ? Math.min(active, matches.length - 1) : null;
+
+  useEffect(() => {
+    findInputRef.current?.focus();
+    findInputRef.current?.select();
+    if (request.query) setQuery(request.query);
+    if (request.replace) setReplaceOpen(true);
+  }, [request]);
+
+  useEffect(() => {
+    onMatchesChangeRef.current(matches, current);
+  }, [matches, current]);
+
+  // Stop highlighting once the panel goes away
+  useEffect(() => () => onMatchesChangeRef.current([], null), []);
+
+  const step = (direction: 1 | -1) => {
+    if (current === null) return;
+    setActive((current + direction + matches.length) % matches.length);
+  };
+
+  const close = () => {
+    if (current !== null) onSelectMatch(matches[current]);
+    onClose();
+  };
+
+  const replaceCurrent = () => {
+    if (current === null || !onReplace) return;
+    console.log("FindReplacePanel: Replacing match", current + 1, "of", matches.length);
+    // The next match moves into the current one's place in the list
+    onReplace(replaceMatches(content, [matches[current]], query, replacement, options));
+  };
+
+  const replaceAll = () => {
+    if (matches.length === 0 || !onReplace) return;
+    console.log("FindReplacePanel: Replacing all", matches.length, "matches");
+    onReplace(replaceMatches(content, matches, query, replacement, options));
+    toast.success(`Replaced ${matches.length} ${matches.length === 1 ? 'match' : 'matches'}`);
+  };
+
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      step(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  const handleReplaceKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) {
+        replaceAll();
+      } else {
+        replaceCurrent();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  const toggleOption = (option: keyof SearchOptions) => (pressed: boolean) =>
+    setOptions(previous => ({ ...previous, [option]: pressed }));
+
+  let status = "No results";
+  if (error) {
+    status = "Invalid expression";
+  } else if (query === "") {
+    status = "";
+  } else if (current !== null) {
+    status = `${current + 1} of ${matches.length}${matches.length >= MAX_MATCHES ? '+' : ''}`;
+  }
+
+  return (
+    <div
+      role="search"
+      className="fixed top-16 right-3 z-10 w-[26rem] max-w-[calc(100vw-1.5rem)] rounded-md border bg-background p-2 shadow-md flex flex-col gap-2"
+    >
+      <div className="flex items-center gap-1">
+        {onReplace ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setReplaceOpen(!showReplace)}
+            className="h-8 w-6 p-0"
+            aria-label={showReplace ? "Hide replace" : "Show replace"}
+          >
+            <ChevronRight className={`h-3.5 w-3.5 transition-transform ${showReplace ? 'rotate-90' : ''}`} />
+          </Button>
+        ) : (
+          <div className="w-6 shrink-0" />
+        )}
+        <Input
+          ref={findInputRef}
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={handleFindKeyDown}
+          placeholder="Find"
+          aria-label="Find"
+          aria-invalid={error !== null}
+          title={error ?? undefined}
+          className={`h-8 text-xs flex-1 ${error ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+        />
+        <Toggle
+          size="sm"
+          pressed={options.caseSensitive}
+          onPressedChange={toggleOption('caseSensitive')}
+          aria-label="Match case"
+          title="Match case"
+          className="h-8 w-8 p-0"
+        >
+          <CaseSensitive className="h-4 w-4" />
+        </Toggle>
+        <Toggle
+          size="sm"
+          pressed={options.wholeWord}
+          onPressedChange={toggleOption('wholeWord')}
+          aria-label="Whole word"
+          title="Whole word"
+          className="h-8 w-8 p-0"
+        >
+          <WholeWord className="h-4 w-4" />
+        </Toggle>
+        <Toggle
+          size="sm"
+          pressed={options.regex}
+          onPressedChange={toggleOption('regex')}
+          aria-label="Regular expression"
+          title="Regular expression"
+          className="h-8 w-8 p-0"
+        >
+          <Regex className="h-4 w-4" />
+        </Toggle>
+      </div>
+
+      <div className="flex items-center gap-1 pl-7">
+        <span className="text-xs text-muted-foreground flex-1 truncate" aria-live="polite" title={error ?? undefined}>
+          {status}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => step(-1)}
+          disabled={current === null}
+          className="h-7 w-7 p-0"
+          aria-label="Previous match"
+          title="Previous match (Shift+Enter)"
+        >
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => step(1)}
+          disabled={current === null}
+          className="h-7 w-7 p-0"
+          aria-label="Next match"
+          title="Next match (Enter)"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={close}
+          className="h-7 w-7 p-0"
+          aria-label="Close"
+          title="Close (Escape)"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {showReplace && (
+        <div className="flex items-center gap-1 pl-7">
+          <Input
+            value={replacement}
+            onChange={e => setReplacement(e.target.value)}
+            onKeyDown={handleReplaceKeyDown}
+            placeholder={options.regex ? "Replace ($1 for groups)" : "Replace"}
+            aria-label="Replace"
+            className="h-8 text-xs flex-1"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={replaceCurrent}
+            disabled={current === null}
+            className="h-8 px-2.5 text-xs"
+            title="Replace (Enter)"
+          >
+            Replace
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={replaceAll}
+            disabled={matches.length === 0}
+            className="h-8 px-2.5 text-xs"
+            title="Replace all (Ctrl+Enter)"
+          >
+            Replace all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindReplacePanel;
@@ -0,0 +1,161 @@
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, GitCompare, History, RotateCcw } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useRevisionHistory } from "@/hooks/useRevisionHistory";
+import { toPlainText } from "@/utils/richText";
+
+interface HistorySheetProps {
+  documentId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The signed-in user, whose revisions are shown as "You"
+  userId: string;
+  // Changes whenever the document is saved, to pick up new revisions
+  refreshKey?: unknown;
+  // Left out when the document can't be edited
+  onRestore?: (content: string, revision: number) => void;
+  // Compares a revision with what's in the editor
+  onCompare?: (revision: number) => void;
+}
+
+/**
+ * Side panel listing a document's saved revisions
+ * Picking one shows its text read-only, with the option to restore it as a
+ * new revision.
+ */
+const HistorySheet = ({
+  documentId,
+  open,
+  onOpenChange,
+  userId,
+  refreshKey,
+  onRestore,
+  onCompare
+}: HistorySheetProps) => {
+  const {
+    revisions,
+    loading,
+    selected,
+    previewLoading,
+    selectRevision,
+    clearSelection
+  } = useRevisionHistory({ documentId, enabled: open, refreshKey });
+
+  const latestRevision = revisions[0]?.revision;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) clearSelection();
+    onOpenChange(next);
+  };
+
+  const handleRestore = () => {
+    if (!selected || !onRestore) return;
+    onRestore(selected.content, selected.revision);
+    clearSelection();
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Version history
+          </SheetTitle>
+          <SheetDescription>
+            {selected
+              ? `Revision ${selected.revision}, saved ${formatDistanceToNow(new Date(selected.createdAt), { addSuffix: true })}`
+              : "Every save is kept as a numbered revision."}
+          </SheetDescription>
+        </SheetHeader>
+
+        {selected ? (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            <ScrollArea className="flex-1 border rounded-md bg-muted/50">
+              <pre className="p-4 text-sm whitespace-pre-wrap break-words font-sans">
+                {toPlainText(selected.content) || <span className="text-muted-foreground italic">(empty)</span>}
+              </pre>
+            </ScrollArea>
+            <div className="flex items-center justify-between gap-2">
+              <Button variant="outline" size="sm" onClick={clearSelection} className="h-8 px-2.5 text-xs">
+                <ArrowLeft className="h-3.5 w-3.5 mr-1" />
+                All revisions
+              </Button>
+              {onCompare && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onCompare(selected.revision)}
+                  className="h-8 px-2.5 text-xs ml-auto"
+                >
+                  <GitCompare className="h-3.5 w-3.5 mr-1" />
+                  Compare with editor
+                </Button>
+              )}
+              {onRestore && (
+                <Button
+                  size="sm"
+                  onClick={handleRestore}
+                  disabled={selected.revision === latestRevision}
+                  className="h-8 px-2.5 text-xs"
+                >
+                  <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                  Restore this version
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <ScrollArea className="flex-1">
+            {loading && revisions.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-1">Loading history...</p>
+            ) : revisions.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-1">No saved revisions yet.</p>
+            ) : (
+              <ul>
+                {revisions.map(revision => (
+                  <li key={revision.revision}>
+                    <button
+                      type="button"
+                      onClick={() => selectRevision(revision.revision)}
+                      disabled={previewLoading}
+                      className="w-full text-left px-3 py-2.5 rounded-md hover:bg-muted disabled:opacity-60"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-foreground">
+                          Revision {revision.revision}
+                          {revision.revision === latestRevision && (
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">Current</span>
+                          )}
+                        </span>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {revision.userId === userId ? "You" : revision.displayName || "Unknown author"}
+                        {" · "}
+                        {revision.length} characters
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default HistorySheet;
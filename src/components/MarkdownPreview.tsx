@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { renderMarkdown } from "@/utils/markdown";
+
+interface MarkdownPreviewProps {
+  content: string;
+  className?: string;
+}
+
+/**
+ * Read-only rendering of a Markdown document, shown beside the editor
+ */
+const MarkdownPreview = ({ content, className }: MarkdownPreviewProps) => {
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  return (
+    <div
+      className={cn(
+        "prose prose-neutral dark:prose-invert max-w-none p-8 md:p-16 lg:p-24 bg-background text-foreground",
+        "prose-pre:bg-muted prose-pre:text-foreground prose-code:before:content-none prose-code:after:content-none",
+        "[&_li:has(>input[type=checkbox])]:list-none [&_input[type=checkbox]]:mr-2",
+        className
+      )}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default MarkdownPreview;
@@ -0,0 +1,95 @@
+import { formatDistanceToNow } from "date-fns";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { getInitials } from "@/utils/identity";
+import type { Participant } from "@/utils/protocol";
+
+interface PresenceAvatarsProps {
+  participants: Participant[];
+  // The signed-in user, shown first
+  userId: string;
+  // Avatars beyond this are summarized as "+N"
+  maxVisible?: number;
+}
+
+const PresenceAvatars = ({ participants, userId, maxVisible = 5 }: PresenceAvatarsProps) => {
+  if (participants.length === 0) return null;
+
+  // One avatar per person however many tabs they have open, from when
+  // they first joined
+  const people = participants.filter((p, index) => participants.findIndex(other => other.userId === p.userId) === index);
+
+  // Show ourselves first, then everyone else in join order
+  const ordered = [
+    ...people.filter(p => p.userId === userId),
+    ...people.filter(p => p.userId !== userId)
+  ];
+  const visible = ordered.slice(0, maxVisible);
+  const hidden = ordered.slice(maxVisible);
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {visible.map(participant => {
+        const isSelf = participant.userId === userId;
+        return (
+          <HoverCard key={participant.clientId} openDelay={200}>
+            <HoverCardTrigger asChild>
+              <Avatar
+                className="h-7 w-7 border-2 border-white cursor-default"
+                aria-label={participant.displayName}
+              >
+                <AvatarFallback
+                  className="text-[10px] font-medium text-white"
+                  style={{ backgroundColor: participant.color }}
+                >
+                  {getInitials(participant.displayName)}
+                </AvatarFallback>
+              </Avatar>
+            </HoverCardTrigger>
+            <HoverCardContent className="w-56 p-3" align="end">
+              <div className="flex items-center gap-2">
+                <span
+                  className="h-2.5 w-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: participant.color }}
+                />
+                <span className="text-sm font-medium truncate">
+                  {participant.displayName}{isSelf && " (you)"}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Joined {formatDistanceToNow(new Date(participant.joinedAt), { addSuffix: true })}
+              </p>
+            </HoverCardContent>
+          </HoverCard>
+        );
+      })}
+
+      {hidden.length > 0 && (
+        <HoverCard openDelay={200}>
+          <HoverCardTrigger asChild>
+            <Avatar className="h-7 w-7 border-2 border-white cursor-default">
+              <AvatarFallback className="text-[10px] font-medium bg-muted text-muted-foreground">
+                +{hidden.length}
+              </AvatarFallback>
+            </Avatar>
+          </HoverCardTrigger>
+          <HoverCardContent className="w-56 p-3" align="end">
+            <ul className="space-y-1">
+              {hidden.map(participant => (
+                <li key={participant.clientId} className="flex items-center gap-2 text-sm">
+                  <span
+                    className="h-2.5 w-2.5 rounded-full shrink-0"
+                    style={{ backgroundColor: participant.color }}
+                  />
+                  <span className="truncate">{participant.displayName}</span>
+                </li>
+              ))}
+            </ul>
+          </HoverCardContent>
+        </HoverCard>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
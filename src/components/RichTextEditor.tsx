@@ -0,0 +1,384 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Bold,
+  Code,
+  Heading1,
+  Heading2,
+  Heading3,
+  Italic,
+  Link as LinkIcon,
+  List,
+  ListOrdered,
+  Pilcrow
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Toggle } from "@/components/ui/toggle";
+import { Separator } from "@/components/ui/separator";
+import { diffToOperation, transformIndex } from "@/utils/ot";
+import { RichDocument, getPlainText, sanitizeLink, serializeRichDocument } from "@/utils/richText";
+import { parseRichHtml, readRichDocument, renderRichHtml } from "@/utils/richTextDom";
+
+interface RichTextEditorProps {
+  value: RichDocument;
+  onChange: (doc: RichDocument) => void;
+  // Undo and redo are handled by the caller, as in TextEditor
+  onUndo?: () => void;
+  onRedo?: () => void;
+  // Shows the document without the toolbar or any way to edit it
+  readOnly?: boolean;
+}
+
+type BlockFormat = 'p' | 'h1' | 'h2' | 'h3' | 'ul' | 'ol';
+
+/**
+ * Formatting at the caret, for the toolbar
+ */
+interface ActiveFormats {
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  link: boolean;
+  block: BlockFormat;
+}
+
+const NO_FORMATS: ActiveFormats = { bold: false, italic: false, code: false, link: false, block: 'p' };
+
+// Elements that hold one block's text once the editor shows a rendered document
+const BLOCK_SELECTOR = 'p, h1, h2, h3, li';
+
+const closestElement = (node: Node | null, selector: string, editor: HTMLElement): HTMLElement | null => {
+  const element = node?.nodeType === Node.ELEMENT_NODE ? node as HTMLElement : node?.parentElement;
+  const found = element?.closest<HTMLElement>(selector) ?? null;
+  return found && editor.contains(found) && found !== editor ? found : null;
+};
+
+/**
+ * Offset of a DOM position in the document's plain text (see getPlainText),
+ * where each block ends with a line break
+ */
+const getPlainOffset = (editor: HTMLElement, node: Node, offset: number): number | null => {
+  const block = closestElement(node, BLOCK_SELECTOR, editor);
+  if (!block) return null;
+
+  let position = 0;
+  for (const other of Array.from(editor.querySelectorAll(BLOCK_SELECTOR))) {
+    if (other === block) break;
+    position += (other.textContent ?? '').length + 1;
+  }
+  const range = document.createRange();
+  range.setStart(block, 0);
+  range.setEnd(node, offset);
+  return position + range.toString().length;
+};
+
+/**
+ * DOM position for a plain-text offset, the inverse of getPlainOffset
+ */
+const getDomPosition = (editor: HTMLElement, offset: number): { node: Node; offset: number } | null => {
+  const blocks = Array.from(editor.querySelectorAll(BLOCK_SELECTOR));
+  let remaining = offset;
+  for (const [index, block] of blocks.entries()) {
+    const length = (block.textContent ?? '').length;
+    if (remaining <= length || index === blocks.length - 1) {
+      const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+      let text = walker.nextNode();
+      while (text) {
+        const textLength = text.nodeValue?.length ?? 0;
+        if (remaining <= textLength) return { node: text, offset: remaining };
+        remaining -= textLength;
+        text = walker.nextNode();
+      }
+      return { node: block, offset: 0 };
+    }
+    remaining -= length + 1;
+  }
+  return null;
+};
+
+const saveSelection = (editor: HTMLElement): { start: number; end: number } | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!editor.contains(range.startContainer)) return null;
+  const start = getPlainOffset(editor, range.startContainer, range.startOffset);
+  const end = getPlainOffset(editor, range.endContainer, range.endOffset);
+  return start === null || end === null ? null : { start, end };
+};
+
+const restoreSelection = (editor: HTMLElement, position: { start: number; end: number }) => {
+  const start = getDomPosition(editor, position.start);
+  const end = getDomPosition(editor, position.end);
+  const selection = window.getSelection();
+  if (!start || !end || !selection) return;
+  const range = document.createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
+
+/**
+ * Editor for rich-text documents: paragraphs, headings, lists, bold,
+ * italic, inline code and links
+ *
+ * The browser edits the HTML and every change is read back into the
+ * document model, which is what's synced. Pasted HTML goes through the
+ * model too, so only formatting it can express survives.
+ * Other participants' cursors aren't shown here: their offsets are into
+ * the serialized document rather than the text on screen.
+ */
+const RichTextEditor = ({ value, onChange, onUndo, onRedo, readOnly = false }: RichTextEditorProps) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const [isComposing, setIsComposing] = useState(false);
+  const [active, setActive] = useState<ActiveFormats>(NO_FORMATS);
+
+  // Show the document on mount, and whenever it changes from elsewhere
+  // (someone else's edit, a refresh); our own edits are already on screen
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || isComposing) return;
+
+    const shown = readRichDocument(editor);
+    if (editor.innerHTML !== '' && serializeRichDocument(shown) === serializeRichDocument(value)) return;
+    console.log("RichTextEditor: Updating editor content");
+
+    // Keep our caret with the text around it
+    const hasFocus = document.activeElement === editor;
+    let position = hasFocus ? saveSelection(editor) : null;
+    if (position) {
+      const change = diffToOperation(getPlainText(shown), getPlainText(value));
+      position = { start: transformIndex(position.start, change), end: transformIndex(position.end, change) };
+    }
+
+    editor.innerHTML = renderRichHtml(value);
+    if (position) restoreSelection(editor, position);
+  }, [value, isComposing]);
+
+  const emitChange = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    onChange(readRichDocument(editor));
+  };
+
+  // Undo and redo from the Edit menu arrive as beforeinput events
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const handleBeforeInput = (e: InputEvent) => {
+      if (e.inputType === 'historyUndo' || e.inputType === 'historyRedo') {
+        e.preventDefault();
+        (e.inputType === 'historyUndo' ? onUndo : onRedo)?.();
+      }
+    };
+
+    editor.addEventListener('beforeinput', handleBeforeInput);
+    return () => {
+      editor.removeEventListener('beforeinput', handleBeforeInput);
+    };
+  }, [onUndo, onRedo]);
+
+  // Keep the toolbar in step with the formatting at the caret
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const editor = editorRef.current;
+      const selection = window.getSelection();
+      if (!editor || !selection || selection.rangeCount === 0 || !editor.contains(selection.anchorNode)) return;
+
+      const anchor = selection.anchorNode;
+      const list = closestElement(anchor, 'ul, ol', editor);
+      const heading = closestElement(anchor, 'h1, h2, h3', editor);
+      setActive({
+        bold: document.queryCommandState('bold'),
+        italic: document.queryCommandState('italic'),
+        code: closestElement(anchor, 'code', editor) !== null,
+        link: closestElement(anchor, 'a', editor) !== null,
+        block: (list?.tagName.toLowerCase() ?? heading?.tagName.toLowerCase() ?? 'p') as BlockFormat
+      });
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => {
+      document.removeEventListener('selectionchange', handleSelectionChange);
+    };
+  }, []);
+
+  // Formatting commands rewrite the DOM in the browser's own way; render
+  // the result from the model again so the editor always holds canonical HTML
+  const runCommand = (command: () => void) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.focus();
+    command();
+
+    const doc = readRichDocument(editor);
+    const position = saveSelection(editor);
+    editor.innerHTML = renderRichHtml(doc);
+    if (position) restoreSelection(editor, position);
+    onChange(doc);
+  };
+
+  const toggleMark = (mark: 'bold' | 'italic') => runCommand(() => document.execCommand(mark));
+
+  const toggleCode = () => runCommand(() => {
+    const editor = editorRef.current;
+    const selection = window.getSelection();
+    if (!editor || !selection || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+
+    const code = closestElement(range.commonAncestorContainer, 'code', editor);
+    if (code) {
+      code.replaceWith(...Array.from(code.childNodes));
+      return;
+    }
+    if (range.collapsed) return;
+    const wrapper = document.createElement('code');
+    wrapper.appendChild(range.extractContents());
+    range.insertNode(wrapper);
+    selection.selectAllChildren(wrapper);
+  });
+
+  const setBlock = (format: BlockFormat) => runCommand(() => {
+    if (format === 'ul' || format === 'ol') {
+      // Lists toggle: the same command again turns items back into paragraphs
+      document.execCommand(format === 'ul' ? 'insertUnorderedList' : 'insertOrderedList');
+      return;
+    }
+    if (active.block === 'ul' || active.block === 'ol') {
+      document.execCommand(active.block === 'ul' ? 'insertUnorderedList' : 'insertOrderedList');
+    }
+    document.execCommand('formatBlock', false, format === active.block && format !== 'p' ? 'p' : format);
+  });
+
+  const editLink = () => {
+    if (active.link) {
+      runCommand(() => document.execCommand('unlink'));
+      return;
+    }
+    const address = window.prompt("Link address");
+    if (!address) return;
+    const href = sanitizeLink(/^[a-z]+:/i.test(address.trim()) ? address : `https://${address.trim()}`);
+    if (!href) return;
+    runCommand(() => document.execCommand('createLink', false, href));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (readOnly || !(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+
+    let handled = true;
+    if (e.altKey && e.code === 'Digit0') setBlock('p');
+    else if (e.altKey && e.code === 'Digit1') setBlock('h1');
+    else if (e.altKey && e.code === 'Digit2') setBlock('h2');
+    else if (e.altKey && e.code === 'Digit3') setBlock('h3');
+    else if (e.shiftKey && e.code === 'Digit7') setBlock('ol');
+    else if (e.shiftKey && e.code === 'Digit8') setBlock('ul');
+    else if (!e.shiftKey && !e.altKey && key === 'b') toggleMark('bold');
+    else if (!e.shiftKey && !e.altKey && key === 'i') toggleMark('italic');
+    else if (!e.shiftKey && !e.altKey && key === 'e') toggleCode();
+    else if (!e.shiftKey && !e.altKey && key === 'k') editLink();
+    else if (!e.altKey && key === 'z') (e.shiftKey ? onRedo : onUndo)?.();
+    else if (!e.shiftKey && !e.altKey && key === 'y') onRedo?.();
+    // Underline isn't part of the model, so don't let the browser add it
+    else if (!e.shiftKey && !e.altKey && key === 'u') handled = true;
+    else handled = false;
+
+    if (handled) e.preventDefault();
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    if (html) {
+      console.log("RichTextEditor: Pasting HTML, length:", html.length);
+      document.execCommand('insertHTML', false, renderRichHtml(parseRichHtml(html)));
+    } else {
+      document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+    }
+  };
+
+  const handleInput = () => {
+    if (isComposing) return;
+    emitChange();
+  };
+
+  const handleCompositionEnd = () => {
+    setTimeout(() => {
+      emitChange();
+      setIsComposing(false);
+    }, 100);
+  };
+
+  const tools: { label: string; shortcut: string; icon: typeof Bold; pressed: boolean; onPress: () => void }[][] = [
+    [
+      { label: "Bold", shortcut: "Ctrl+B", icon: Bold, pressed: active.bold, onPress: () => toggleMark('bold') },
+      { label: "Italic", shortcut: "Ctrl+I", icon: Italic, pressed: active.italic, onPress: () => toggleMark('italic') },
+      { label: "Code", shortcut: "Ctrl+E", icon: Code, pressed: active.code, onPress: toggleCode },
+      { label: "Link", shortcut: "Ctrl+K", icon: LinkIcon, pressed: active.link, onPress: editLink }
+    ],
+    [
+      { label: "Paragraph", shortcut: "Ctrl+Alt+0", icon: Pilcrow, pressed: active.block === 'p', onPress: () => setBlock('p') },
+      { label: "Heading 1", shortcut: "Ctrl+Alt+1", icon: Heading1, pressed: active.block === 'h1', onPress: () => setBlock('h1') },
+      { label: "Heading 2", shortcut: "Ctrl+Alt+2", icon: Heading2, pressed: active.block === 'h2', onPress: () => setBlock('h2') },
+      { label: "Heading 3", shortcut: "Ctrl+Alt+3", icon: Heading3, pressed: active.block === 'h3', onPress: () => setBlock('h3') }
+    ],
+    [
+      { label: "Bulleted list", shortcut: "Ctrl+Shift+8", icon: List, pressed: active.block === 'ul', onPress: () => setBlock('ul') },
+      { label: "Numbered list", shortcut: "Ctrl+Shift+7", icon: ListOrdered, pressed: active.block === 'ol', onPress: () => setBlock('ol') }
+    ]
+  ];
+
+  return (
+    <div className="relative min-h-screen flex flex-col bg-background">
+      {!readOnly && (
+        <div
+          role="toolbar"
+          aria-label="Formatting"
+          className="sticky top-0 z-[5] flex items-center gap-1 px-8 md:px-16 lg:px-24 py-3 bg-background/80 backdrop-blur-sm"
+        >
+          {tools.map((group, index) => (
+            <div key={index} className="flex items-center gap-1">
+              {index > 0 && <Separator orientation="vertical" className="h-5 mx-1" />}
+              {group.map(({ label, shortcut, icon: Icon, pressed, onPress }) => (
+                <Toggle
+                  key={label}
+                  size="sm"
+                  pressed={pressed}
+                  onPressedChange={onPress}
+                  // Keep the selection in the editor
+                  onMouseDown={e => e.preventDefault()}
+                  aria-label={label}
+                  title={`${label} (${shortcut})`}
+                  className="h-8 w-8 p-0"
+                >
+                  <Icon className="h-4 w-4" />
+                </Toggle>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        ref={editorRef}
+        contentEditable={readOnly ? "false" : "true"}
+        suppressContentEditableWarning={true}
+        onInput={handleInput}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onCompositionStart={() => setIsComposing(true)}
+        onCompositionEnd={handleCompositionEnd}
+        className={cn(
+          "flex-1 w-full px-8 md:px-16 lg:px-24 pb-8 md:pb-16 lg:pb-24 outline-none",
+          // Padded like the plain editor where the toolbar would be
+          readOnly && "pt-8 md:pt-16 lg:pt-24",
+          "prose prose-neutral dark:prose-invert max-w-none bg-background text-foreground",
+          "prose-code:before:content-none prose-code:after:content-none",
+          "font-sans text-base md:text-lg leading-relaxed whitespace-pre-wrap break-words"
+        )}
+      />
+    </div>
+  );
+};
+
+export default RichTextEditor;
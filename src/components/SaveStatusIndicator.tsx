@@ -0,0 +1,57 @@
+import { AlertTriangle, Check, CloudOff, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { SaveStatus } from "@/hooks/useSocketSync";
+
+interface SaveStatusIndicatorProps {
+  status: SaveStatus;
+  lastSaved: Date | null;
+}
+
+const SaveStatusIndicator = ({ status, lastSaved }: SaveStatusIndicatorProps) => {
+  switch (status) {
+    case 'saving':
+      return (
+        <span className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+          Saving...
+        </span>
+      );
+    case 'unsaved':
+      return (
+        <Badge variant="secondary" className="text-xs bg-yellow-100 text-yellow-800">
+          Unsaved changes
+        </Badge>
+      );
+    case 'offline':
+      return (
+        <Badge
+          variant="secondary"
+          className="text-xs bg-muted text-foreground"
+          title="Changes are kept on this device and sent when the connection returns"
+        >
+          <CloudOff className="h-3.5 w-3.5 mr-1" />
+          Offline
+        </Badge>
+      );
+    case 'conflict':
+      return (
+        <Badge
+          variant="secondary"
+          className="text-xs bg-red-100 text-red-800"
+          title="The server refused the last save. Save again or refresh the document."
+        >
+          <AlertTriangle className="h-3.5 w-3.5 mr-1" />
+          Save failed
+        </Badge>
+      );
+    default:
+      return lastSaved ? (
+        <span className="flex items-center text-xs text-muted-foreground">
+          <Check className="h-3.5 w-3.5 mr-1" />
+          Last saved: {lastSaved.toLocaleTimeString()}
+        </span>
+      ) : null;
+  }
+};
+
+export default SaveStatusIndicator;
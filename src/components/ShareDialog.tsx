@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, Link2, Trash2, UserMinus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  DOCUMENT_ROLES,
+  DocumentAccessPayload,
+  DocumentRole,
+  ShareLink,
+  ShareRole,
+  documentErrorSchema,
+  parsePayload
+} from "@/utils/protocol";
+import { createShareLink, getSocket, revokeShareLink, setMemberRole } from "@/utils/socket";
+
+const ROLE_LABELS: Record<DocumentRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  commenter: "Commenter",
+  viewer: "Viewer"
+};
+
+const SHARE_ROLES: ShareRole[] = ['editor', 'commenter', 'viewer'];
+
+// How long new links work for, in days; 0 never expires
+const EXPIRY_OPTIONS = [
+  { days: 0, label: "Never expires" },
+  { days: 1, label: "Expires in 1 day" },
+  { days: 7, label: "Expires in 7 days" },
+  { days: 30, label: "Expires in 30 days" }
+];
+
+// Requests made from this dialog, whose errors it reports
+const SHARE_REQUESTS = ['set_member_role', 'create_share_link', 'revoke_share_link'];
+
+const getShareUrl = (documentId: string, token: string) =>
+  `${window.location.origin}/d/${encodeURIComponent(documentId)}?share=${encodeURIComponent(token)}`;
+
+const describeExpiry = (link: ShareLink) => {
+  if (!link.expiresAt) return "Never expires";
+  const expiresAt = new Date(link.expiresAt);
+  if (expiresAt.getTime() <= Date.now()) return "Expired";
+  return `Expires ${formatDistanceToNow(expiresAt, { addSuffix: true })}`;
+};
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId: string;
+  // Only owners get the members and links to manage
+  access: DocumentAccessPayload | null;
+  userId: string;
+}
+
+/**
+ * Lets owners create and revoke share links and change who has access
+ */
+const ShareDialog = ({ open, onOpenChange, documentId, access, userId }: ShareDialogProps) => {
+  const [linkRole, setLinkRole] = useState<ShareRole>('viewer');
+  const [expiryDays, setExpiryDays] = useState(7);
+
+  // The server answers these requests with document_access, or an error
+  useEffect(() => {
+    if (!open) return;
+    const socket = getSocket();
+    const onError = (payload: unknown) => {
+      const { data } = parsePayload(documentErrorSchema, payload);
+      if (!data || !SHARE_REQUESTS.includes(data.request ?? '') || data.documentId !== documentId) return;
+      toast.error(data.message);
+    };
+    socket.on('document_error', onError);
+    return () => {
+      socket.off('document_error', onError);
+    };
+  }, [open, documentId]);
+
+  const members = access?.members ?? [];
+  const links = access?.links ?? [];
+  const ownerCount = members.filter(member => member.role === 'owner').length;
+
+  const handleCreateLink = () => {
+    const expiresAt = expiryDays > 0
+      ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+    console.log("ShareDialog: Creating a link for", linkRole);
+    createShareLink(documentId, linkRole, expiresAt);
+  };
+
+  const handleCopyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(documentId, link.token));
+      toast.success("Link copied");
+    } catch (err) {
+      console.error("ShareDialog: Failed to copy link:", err);
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share</DialogTitle>
+          <DialogDescription>
+            Anyone signed in who opens a link joins with its role. Revoking a link keeps the people who already joined.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-medium">Links</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={linkRole} onValueChange={value => setLinkRole(value as ShareRole)}>
+              <SelectTrigger className="h-8 text-xs w-32" aria-label="Role for the link">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_ROLES.map(role => (
+                  <SelectItem key={role} value={role} className="text-xs">
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(expiryDays)} onValueChange={value => setExpiryDays(Number(value))}>
+              <SelectTrigger className="h-8 text-xs w-40" aria-label="When the link expires">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)} className="text-xs">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleCreateLink} className="h-8 px-2.5 text-xs">
+              <Link2 className="h-3.5 w-3.5 mr-1" />
+              Create link
+            </Button>
+          </div>
+
+          {links.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No links yet.</p>
+          ) : (
+            <ul className="flex flex-col divide-y rounded-md border">
+              {links.map(link => (
+                <li key={link.token} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <span className="font-medium">{ROLE_LABELS[link.role]}</span>
+                  <span className="text-xs text-muted-foreground flex-1">{describeExpiry(link)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCopyLink(link)}
+                    className="h-7 px-2 text-xs"
+                  >
+                    <Copy className="h-3.5 w-3.5 mr-1" />
+                    Copy
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeShareLink(documentId, link.token)}
+                    className="h-7 px-2 text-xs"
+                    aria-label="Revoke link"
+                    title="Revoke link"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-medium">People with access</h3>
+          <ul className="flex flex-col divide-y rounded-md border">
+            {members.map(member => {
+              // A document always keeps at least one owner
+              const isLastOwner = member.role === 'owner' && ownerCount === 1;
+              return (
+                <li key={member.userId} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">
+                      {member.displayName}
+                      {member.userId === userId && <span className="text-muted-foreground"> (you)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{member.userId}</p>
+                  </div>
+                  <Select
+                    value={member.role}
+                    onValueChange={value => setMemberRole(documentId, member.userId, value as DocumentRole)}
+                    disabled={isLastOwner}
+                  >
+                    <SelectTrigger className="h-7 text-xs w-32" aria-label={`Role of ${member.displayName}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DOCUMENT_ROLES.map(role => (
+                        <SelectItem key={role} value={role} className="text-xs">
+                          {ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setMemberRole(documentId, member.userId, null)}
+                    disabled={isLastOwner}
+                    className="h-7 px-2 text-xs"
+                    aria-label={`Remove ${member.displayName}`}
+                    title="Remove access"
+                  >
+                    <UserMinus className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
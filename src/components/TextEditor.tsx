@@ -1,19 +1,151 @@
 
-import { useEffect, useRef, useState } from "react";
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
-import { saveCursorPosition, restoreCursorPosition } from "@/utils/cursorUtils";
+import { saveCursorPosition, restoreCursorPosition, getRangeForOffsets } from "@/utils/cursorUtils";
+import { diffToOperation, transformIndex } from "@/utils/ot";
+import type { RemoteCursor } from "@/hooks/useSocketSync";
+import type { TextRange } from "@/utils/search";
 
 interface TextEditorProps {
   content: string;
   onChange: (content: string) => void;
   value: string;
+  // Other participants' carets and selections to draw over the text
+  remoteCursors?: RemoteCursor[];
+  // Called with the local selection as text offsets, or null on blur
+  onSelectionChange?: (selection: { start: number; end: number } | null) => void;
+  // The browser's own undo history breaks whenever the text is replaced
+  // from outside, so undo and redo are handled by the caller; each returns
+  // where to put the caret, or null if nothing changed
+  onUndo?: () => number | null;
+  onRedo?: () => number | null;
+  // Search matches to highlight, and which of them is the current one
+  highlights?: TextRange[];
+  activeHighlight?: number | null;
+  // Shows the text, still following everyone's changes, without letting
+  // it be edited; it can be selected and copied
+  readOnly?: boolean;
 }
 
-const TextEditor = ({ content, onChange, value }: TextEditorProps) => {
+/**
+ * Lets the parent move the selection, e.g. to a search match
+ */
+export interface TextEditorHandle {
+  selectRange: (range: TextRange) => void;
+}
+
+interface OverlayBox {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a remote cursor is drawn, relative to the editor's container
+ */
+interface CursorOverlay {
+  clientId: string;
+  displayName: string;
+  color: string;
+  selection: OverlayBox[];
+  caret: OverlayBox | null;
+}
+
+// Highlighting every match of a very common word would slow typing down
+const MAX_HIGHLIGHTS = 500;
+
+// The toolbar floats over the top of the page
+const SCROLL_MARGIN = 80;
+
+/**
+ * Scrolls the nearest scrolling ancestor, or the window, so a range is in view
+ */
+const scrollRangeIntoView = (range: Range, element: HTMLElement) => {
+  const rect = range.getBoundingClientRect();
+  let scroller = element.parentElement;
+  while (scroller && !/(auto|scroll)/.test(getComputedStyle(scroller).overflowY)) {
+    scroller = scroller.parentElement;
+  }
+  const view = scroller ? scroller.getBoundingClientRect() : { top: 0, bottom: window.innerHeight };
+  if (rect.top >= view.top + SCROLL_MARGIN && rect.bottom <= view.bottom - SCROLL_MARGIN) return;
+
+  // Bring it to the middle rather than the edge
+  const delta = rect.top - (view.top + view.bottom) / 2;
+  (scroller ?? window).scrollBy({ top: delta });
+};
+
+/**
+ * Measures the boxes for a remote cursor inside the editor
+ */
+const measureCursor = (
+  editor: HTMLDivElement,
+  container: HTMLDivElement,
+  cursor: RemoteCursor
+): CursorOverlay => {
+  const origin = container.getBoundingClientRect();
+  const toBox = (rect: DOMRect): OverlayBox => ({
+    top: rect.top - origin.top,
+    left: rect.left - origin.left,
+    width: rect.width,
+    height: rect.height
+  });
+
+  const selection: OverlayBox[] = [];
+  if (cursor.end > cursor.start) {
+    const range = getRangeForOffsets(editor, cursor.start, cursor.end);
+    if (range) {
+      Array.from(range.getClientRects())
+        .filter(rect => rect.width > 0)
+        .forEach(rect => selection.push(toBox(rect)));
+    }
+  }
+
+  // A collapsed range next to a line break has no box, so fall back to the
+  // right edge of the character before the caret
+  let caret: OverlayBox | null = null;
+  const caretRect = getRangeForOffsets(editor, cursor.end, cursor.end)?.getClientRects()[0];
+  if (caretRect) {
+    caret = { ...toBox(caretRect), width: 2 };
+  } else if (cursor.end > 0) {
+    const rects = getRangeForOffsets(editor, cursor.end - 1, cursor.end)?.getClientRects();
+    const previous = rects && rects[rects.length - 1];
+    if (previous) {
+      caret = { ...toBox(previous), left: previous.right - origin.left, width: 2 };
+    }
+  }
+
+  return {
+    clientId: cursor.clientId,
+    displayName: cursor.displayName,
+    color: cursor.color,
+    selection,
+    caret
+  };
+};
+
+const TextEditor = forwardRef<TextEditorHandle, TextEditorProps>(({
+  content,
+  onChange,
+  value,
+  remoteCursors = [],
+  onSelectionChange,
+  onUndo,
+  onRedo,
+  highlights = [],
+  activeHighlight = null,
+  readOnly = false
+}, ref) => {
   const editorRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const [isComposing, setIsComposing] = useState(false);
+  const [overlays, setOverlays] = useState<CursorOverlay[]>([]);
+  const [highlightBoxes, setHighlightBoxes] = useState<(OverlayBox & { active: boolean })[]>([]);
+  const [layoutVersion, setLayoutVersion] = useState(0);
   const lastCursorPosition = useRef<{ start: number, end: number } | null>(null);
   const isInitialMount = useRef(true);
+  // Set by undo and redo: where the caret goes once the value changes
+  const caretAfterUpdate = useRef<number | null>(null);
 
   // Initialize editor content on first render
   useEffect(() => {
@@ -41,6 +173,21 @@ const TextEditor = ({ content, onChange, value }: TextEditorProps) => {
       // Only update if the content is different
       if (editorRef.current.innerText !== value) {
         console.log("TextEditor: Updating editor content");
+
+        // Someone else's edit: move our caret along with the text around it
+        const change = diffToOperation(editorRef.current.innerText, value || '');
+        const position = lastCursorPosition.current;
+        if (caretAfterUpdate.current !== null) {
+          // Undo and redo put the caret where the text changed
+          lastCursorPosition.current = { start: caretAfterUpdate.current, end: caretAfterUpdate.current };
+          caretAfterUpdate.current = null;
+        } else if (position) {
+          lastCursorPosition.current = {
+            start: transformIndex(position.start, change),
+            end: transformIndex(position.end, change)
+          };
+        }
+
         editorRef.current.innerText = value || '';
         
         // Restore cursor position
@@ -51,6 +198,110 @@ const TextEditor = ({ content, onChange, value }: TextEditorProps) => {
     }
   }, [value, isComposing]);
 
+  // Undo and redo from the Edit menu arrive as beforeinput events
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const handleBeforeInput = (e: InputEvent) => {
+      if (e.inputType !== 'historyUndo' && e.inputType !== 'historyRedo') return;
+      e.preventDefault();
+      if (readOnly) return;
+      const caret = e.inputType === 'historyUndo' ? onUndo?.() : onRedo?.();
+      caretAfterUpdate.current = caret ?? null;
+    };
+
+    editor.addEventListener('beforeinput', handleBeforeInput);
+    return () => {
+      editor.removeEventListener('beforeinput', handleBeforeInput);
+    };
+  }, [onUndo, onRedo, readOnly]);
+
+  // Report the local selection while the editor has focus
+  useEffect(() => {
+    if (!onSelectionChange) return;
+
+    const handleSelectionChange = () => {
+      if (document.activeElement !== editorRef.current || isComposing) return;
+      const position = saveCursorPosition(editorRef.current);
+      if (position) {
+        onSelectionChange(position);
+      }
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => {
+      document.removeEventListener('selectionchange', handleSelectionChange);
+    };
+  }, [onSelectionChange, isComposing]);
+
+  // Text reflows when the window resizes, so remote cursors must be measured again
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => setLayoutVersion(version => version + 1));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Measure remote cursors once the editor shows the latest text; this runs
+  // after the effect above that writes the value into the editor
+  useEffect(() => {
+    const editor = editorRef.current;
+    const container = containerRef.current;
+    if (!editor || !container || remoteCursors.length === 0) {
+      setOverlays([]);
+      return;
+    }
+    setOverlays(remoteCursors.map(cursor => measureCursor(editor, container, cursor)));
+  }, [remoteCursors, value, layoutVersion]);
+
+  // Measure search matches the same way
+  useEffect(() => {
+    const editor = editorRef.current;
+    const container = containerRef.current;
+    if (!editor || !container || highlights.length === 0) {
+      setHighlightBoxes([]);
+      return;
+    }
+
+    const origin = container.getBoundingClientRect();
+    const boxes: (OverlayBox & { active: boolean })[] = [];
+    highlights.slice(0, MAX_HIGHLIGHTS).forEach((match, index) => {
+      const range = getRangeForOffsets(editor, match.start, match.end);
+      if (!range) return;
+      Array.from(range.getClientRects())
+        .filter(rect => rect.width > 0)
+        .forEach(rect => boxes.push({
+          top: rect.top - origin.top,
+          left: rect.left - origin.left,
+          width: rect.width,
+          height: rect.height,
+          active: index === activeHighlight
+        }));
+    });
+    setHighlightBoxes(boxes);
+  }, [highlights, activeHighlight, value, layoutVersion]);
+
+  // Keep the current match in view as the user steps through them
+  useEffect(() => {
+    const editor = editorRef.current;
+    const match = activeHighlight !== null ? highlights[activeHighlight] : undefined;
+    if (!editor || !match) return;
+    const range = getRangeForOffsets(editor, match.start, match.end);
+    if (range) scrollRangeIntoView(range, editor);
+  }, [highlights, activeHighlight]);
+
+  useImperativeHandle(ref, () => ({
+    selectRange: (range: TextRange) => {
+      const editor = editorRef.current;
+      if (!editor) return;
+      editor.focus();
+      restoreCursorPosition(editor, range);
+    }
+  }), []);
+
   const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
     if (isComposing) {
       console.log("TextEditor: Input during composition, deferring update");
@@ -72,6 +323,19 @@ const TextEditor = ({ content, onChange, value }: TextEditorProps) => {
     }
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (readOnly || !(e.metaKey || e.ctrlKey) || e.altKey) return;
+    const key = e.key.toLowerCase();
+    const isUndo = key === 'z' && !e.shiftKey;
+    const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+    if (!isUndo && !isRedo) return;
+
+    e.preventDefault();
+    console.log("TextEditor:", isUndo ? "Undo" : "Redo");
+    const caret = isUndo ? onUndo?.() : onRedo?.();
+    caretAfterUpdate.current = caret ?? null;
+  };
+
   // Composition events for IME input (Asian languages, etc.)
   const handleCompositionStart = () => {
     console.log("TextEditor: Composition started");
@@ -99,22 +363,26 @@ const TextEditor = ({ content, onChange, value }: TextEditorProps) => {
   const handleBlur = () => {
     console.log("TextEditor: Editor blurred, saving cursor position");
     lastCursorPosition.current = saveCursorPosition(editorRef.current);
+    onSelectionChange?.(null);
   };
 
   return (
-    <div className="min-h-screen flex flex-col">
+    <div ref={containerRef} className="relative min-h-screen flex flex-col">
       <div
         ref={editorRef}
-        contentEditable="true"
+        contentEditable={readOnly ? "false" : "true"}
         suppressContentEditableWarning={true}
+        // Still focusable when read-only, so the selection is shared
+        tabIndex={readOnly ? 0 : undefined}
         onInput={handleInput}
+        onKeyDown={handleKeyDown}
         onCompositionStart={handleCompositionStart}
         onCompositionEnd={handleCompositionEnd}
         onFocus={handleFocus}
         onBlur={handleBlur}
         className={cn(
           "min-h-screen w-full p-8 md:p-16 lg:p-24 outline-none",
-          "bg-white text-black",
+          "bg-background text-foreground",
           "font-sans text-base md:text-lg leading-relaxed",
           "focus:outline-none whitespace-pre-wrap break-words"
         )}
@@ -126,8 +394,44 @@ const TextEditor = ({ content, onChange, value }: TextEditorProps) => {
           textAlign: "left" // Ensure text aligns from left
         }}
       />
+
+      <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden="true">
+        {highlightBoxes.map((box, index) => (
+          <div
+            key={`match-${index}`}
+            className={cn("absolute rounded-sm", box.active ? "bg-orange-400/50" : "bg-yellow-300/50")}
+            style={{ top: box.top, left: box.left, width: box.width, height: box.height }}
+          />
+        ))}
+        {overlays.map(overlay => (
+          <div key={overlay.clientId}>
+            {overlay.selection.map((box, index) => (
+              <div
+                key={index}
+                className="absolute"
+                style={{ ...box, backgroundColor: `${overlay.color}33` }}
+              />
+            ))}
+            {overlay.caret && (
+              <div
+                className="absolute"
+                style={{ ...overlay.caret, backgroundColor: overlay.color }}
+              >
+                <span
+                  className="absolute bottom-full left-0 whitespace-nowrap rounded-sm px-1 py-px text-[10px] font-medium leading-tight text-white"
+                  style={{ backgroundColor: overlay.color }}
+                >
+                  {overlay.displayName}
+                </span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
     </div>
   );
-};
+});
+
+TextEditor.displayName = "TextEditor";
 
 export default TextEditor;
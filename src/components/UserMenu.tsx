@@ -0,0 +1,78 @@
+import { LogOut } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useCommands } from "@/hooks/useCommands";
+import { useSession } from "@/hooks/useSession";
+import { clearSession } from "@/utils/auth";
+import { clearRecentDocuments } from "@/utils/documents";
+import { getInitials, getParticipantColor } from "@/utils/identity";
+import { clearOfflineDocuments } from "@/utils/offlineStore";
+
+/**
+ * The signed-in user's avatar, with a menu to sign out
+ */
+const UserMenu = () => {
+  const session = useSession();
+
+  // Nothing of this user's is left on the device for whoever signs in next,
+  // including changes that were never sent
+  const signOut = () => {
+    console.log("UserMenu: Signing out");
+    const userId = session?.user.id;
+    clearSession();
+    clearRecentDocuments();
+    if (userId) {
+      clearOfflineDocuments(userId).catch(err => {
+        console.warn("UserMenu: Failed to clear documents kept on this device:", err);
+      });
+    }
+  };
+
+  useCommands([
+    { id: 'account.sign-out', title: "Sign out", group: "Account", keywords: ["log out"], run: signOut }
+  ]);
+
+  if (!session) return null;
+  const { user } = session;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label={`Signed in as ${user.displayName}`}
+          title={`Signed in as ${user.displayName}`}
+        >
+          <Avatar className="h-7 w-7">
+            <AvatarFallback
+              className="text-[10px] font-medium text-white"
+              style={{ backgroundColor: getParticipantColor(user.id) }}
+            >
+              {getInitials(user.displayName)}
+            </AvatarFallback>
+          </Avatar>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel className="font-normal">
+          <p className="text-sm font-medium truncate">{user.displayName}</p>
+          <p className="text-xs text-muted-foreground truncate">{user.id}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={signOut}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default UserMenu;
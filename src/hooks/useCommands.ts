@@ -0,0 +1,31 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { Command, getCommands, registerCommands, subscribeToCommands } from '@/utils/commands';
+
+/**
+ * Registers commands while the calling component is mounted
+ * Commands can be created inline on every render: they're only registered
+ * again when something the palette shows changes, and running one always
+ * calls the latest version.
+ */
+export const useCommands = (commands: Command[]) => {
+  const latestRef = useRef(commands);
+  latestRef.current = commands;
+
+  const signature = commands
+    .map(({ id, title, group, shortcut, keywords, enabled }) =>
+      [id, title, group, shortcut ?? '', (keywords ?? []).join(','), enabled !== false].join('|'))
+    .join('\n');
+
+  useEffect(() => {
+    return registerCommands(latestRef.current.map(command => ({
+      ...command,
+      run: () => latestRef.current.find(latest => latest.id === command.id)?.run()
+    })));
+  }, [signature]);
+};
+
+/**
+ * Every registered command, updating as features register and unregister them
+ */
+export const useRegisteredCommands = (): Command[] =>
+  useSyncExternalStore(subscribeToCommands, getCommands);
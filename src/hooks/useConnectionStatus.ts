@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getSocket, reconnectNow } from '@/utils/socket';
+import { getConnectionStatus, subscribeToConnectionStatus } from '@/utils/connectionStore';
+
+/**
+ * State of the connection to the server, with its latency and a way to
+ * reconnect once automatic reconnection has given up
+ */
+export const useConnectionStatus = () => {
+  const status = useSyncExternalStore(subscribeToConnectionStatus, getConnectionStatus);
+
+  // The status only means something once the socket exists
+  useEffect(() => {
+    getSocket();
+  }, []);
+
+  return { ...status, reconnect: reconnectNow };
+};
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getSocket, requestDocumentList } from '@/utils/socket';
+import { DocumentSummary, documentListSchema, parsePayload } from '@/utils/protocol';
+import { RecentDocument, getRecentDocuments } from '@/utils/documents';
+
+/**
+ * Lists documents stored on the server alongside those recently opened on
+ * this device, so the list is still useful while offline
+ */
+export const useDocumentList = () => {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [recentDocuments] = useState<RecentDocument[]>(() => getRecentDocuments());
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(() => {
+    setLoading(true);
+    requestDocumentList();
+  }, []);
+
+  useEffect(() => {
+    const socket = getSocket();
+
+    const onDocumentList = (payload: unknown) => {
+      const { data, error } = parsePayload(documentListSchema, payload);
+      if (error) {
+        console.error("Ignoring malformed document list:", error);
+        return;
+      }
+      setDocuments(data.documents);
+      setLoading(false);
+    };
+
+    socket.on('document_list', onDocumentList);
+    socket.on('connect', refresh);
+    refresh();
+
+    // Show whatever we have locally if the server doesn't answer
+    const loadingTimeout = setTimeout(() => setLoading(false), 3000);
+
+    return () => {
+      socket.off('document_list', onDocumentList);
+      socket.off('connect', refresh);
+      clearTimeout(loadingTimeout);
+    };
+  }, [refresh]);
+
+  return {
+    documents,
+    recentDocuments,
+    loading,
+    refresh
+  };
+};
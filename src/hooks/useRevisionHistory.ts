@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { getSocket, requestRevisionList, requestRevision } from '@/utils/socket';
+import {
+  RevisionSummary,
+  RevisionContentPayload,
+  revisionListSchema,
+  revisionContentSchema,
+  documentErrorSchema,
+  parsePayload
+} from '@/utils/protocol';
+
+// How long to wait for a revision before giving up
+const REVISION_TIMEOUT = 5000;
+
+/**
+ * Fetches the text of one revision
+ * @throws if the server reports an error or doesn't answer in time
+ */
+export const loadRevision = (documentId: string, revision: number): Promise<RevisionContentPayload> =>
+  new Promise((resolve, reject) => {
+    const socket = getSocket();
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      socket.off('revision_content', onContent);
+      socket.off('document_error', onError);
+    };
+
+    const onContent = (payload: unknown) => {
+      const { data } = parsePayload(revisionContentSchema, payload);
+      if (!data || data.documentId !== documentId || data.revision !== revision) return;
+      cleanup();
+      resolve(data);
+    };
+
+    const onError = (payload: unknown) => {
+      const { data } = parsePayload(documentErrorSchema, payload);
+      if (!data || data.request !== 'get_revision' || (data.documentId && data.documentId !== documentId)) return;
+      cleanup();
+      reject(new Error(data.message));
+    };
+
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out loading revision ${revision}`));
+    }, REVISION_TIMEOUT);
+
+    socket.on('revision_content', onContent);
+    socket.on('document_error', onError);
+    requestRevision(documentId, revision);
+  });
+
+interface UseRevisionHistoryProps {
+  documentId: string;
+  // Only talk to the server while the history is on screen
+  enabled: boolean;
+  // Changes whenever a new revision may exist, to reload the list
+  refreshKey?: unknown;
+}
+
+/**
+ * Lists a document's saved revisions and loads any one of them for preview
+ */
+export const useRevisionHistory = ({ documentId, enabled, refreshKey }: UseRevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<RevisionContentPayload | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const refresh = useCallback(() => {
+    setLoading(true);
+    requestRevisionList(documentId);
+  }, [documentId]);
+
+  const selectRevision = useCallback(async (revision: number) => {
+    console.log("Loading revision for preview:", revision);
+    setPreviewLoading(true);
+    try {
+      setSelected(await loadRevision(documentId, revision));
+    } catch (err) {
+      console.error("Failed to load revision:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to load revision");
+    } finally {
+      setPreviewLoading(false);
+    }
+  }, [documentId]);
+
+  const clearSelection = useCallback(() => {
+    setSelected(null);
+    setPreviewLoading(false);
+  }, []);
+
+  // A different document has a different history
+  useEffect(() => {
+    setRevisions([]);
+    setSelected(null);
+  }, [documentId]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const socket = getSocket();
+
+    const onRevisionList = (payload: unknown) => {
+      const { data, error } = parsePayload(revisionListSchema, payload);
+      if (error) {
+        console.error("Ignoring malformed revision list:", error);
+        return;
+      }
+      if (data.documentId !== documentId) return;
+      setRevisions(data.revisions);
+      setLoading(false);
+    };
+
+    const onError = (payload: unknown) => {
+      const { data } = parsePayload(documentErrorSchema, payload);
+      if (!data || data.request !== 'list_revisions') return;
+      if (data.documentId && data.documentId !== documentId) return;
+      toast.error(data.message);
+      setLoading(false);
+    };
+
+    socket.on('revision_list', onRevisionList);
+    socket.on('document_error', onError);
+    socket.on('connect', refresh);
+    refresh();
+
+    return () => {
+      socket.off('revision_list', onRevisionList);
+      socket.off('document_error', onError);
+      socket.off('connect', refresh);
+    };
+  }, [enabled, documentId, refreshKey, refresh]);
+
+  return {
+    revisions,
+    loading,
+    selected,
+    previewLoading,
+    selectRevision,
+    clearSelection,
+    refresh
+  };
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { AuthSession, getSession, subscribeToSession } from '@/utils/auth';
+
+/**
+ * The signed-in session, or null once signed out
+ */
+export const useSession = (): AuthSession | null =>
+  useSyncExternalStore(subscribeToSession, getSession);
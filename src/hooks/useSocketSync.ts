@@ -1,22 +1,185 @@
-
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { toast } from 'sonner';
-import { 
+import {
   getSocket,
   disconnectSocket,
   joinDocument,
   leaveDocument,
+  sendPresenceHeartbeat,
   sendDocumentUpdate,
-  requestDocumentContent
+  sendCursorUpdate,
+  requestDocumentContent,
+  claimDocument,
+  setDocumentFormat
 } from '@/utils/socket';
+import {
+  CRDTDocument,
+  createDocument,
+  loadDocument,
+  getText,
+  getStateVector,
+  hasChangesSince,
+  encodeUpdate,
+  applyUpdate,
+  replaceText,
+  applyTextOperation,
+  splitUpdateByClient,
+  getRelativePosition,
+  resolveRelativePosition,
+  EditRecord,
+  recordEdit,
+  revertEdit,
+  getItemsText
+} from '@/utils/crdt';
+import { TextOperation, diffToOperation, diffLinesToOperation, isNoop } from '@/utils/ot';
+import { MergeChunk, ConflictResolution, mergeText, applyResolutions } from '@/utils/diff';
+import {
+  PROTOCOL_VERSION,
+  CursorSelection,
+  DocumentAccessPayload,
+  DocumentFormat,
+  DocumentErrorPayload,
+  Participant,
+  documentAccessSchema,
+  documentFormatSchema,
+  documentJoinedSchema,
+  documentContentSchema,
+  documentUpdatedSchema,
+  documentSavedSchema,
+  documentErrorSchema,
+  presenceUpdateSchema,
+  cursorUpdatedSchema,
+  parsePayload
+} from '@/utils/protocol';
+import { getParticipantColor } from '@/utils/identity';
+import { getSession } from '@/utils/auth';
+import { OfflineDocument, OutboxEntry, loadOfflineDocument, saveOfflineDocument } from '@/utils/offlineStore';
+import { RichDocument, isRichText, parseRichDocument, serializeRichDocument } from '@/utils/richText';
+import { useDebounce } from '@/hooks/useDebounce';
+
+// Must stay well under the server's presence timeout (30 seconds)
+const PRESENCE_HEARTBEAT_INTERVAL = 10000;
+
+// Requests whose errors mean this editing session can't continue; errors
+// for other requests (history, listings) are handled where they were made
+const SESSION_REQUESTS = ['join_document', 'get_document'];
+
+// Format changes are made here, so their errors are handled here too
+const FORMAT_REQUEST = 'set_document_format';
+
+// Claims are asked for here, so their errors are reported here too
+const CLAIM_REQUEST = 'claim_document';
+
+// Selection changes are sent at most this often
+const CURSOR_THROTTLE_MS = 100;
+
+// How long typing has to pause before autosave sends the changes
+const AUTOSAVE_DELAY = 1500;
+
+// How long a save waits for the server to acknowledge it
+const SAVE_TIMEOUT_MS = 5000;
+
+// Typing within this long of the previous edit is undone together
+const UNDO_GROUP_MS = 1000;
+
+// Undo steps kept for a document
+const UNDO_LIMIT = 200;
+
+/**
+ * Where the local changes stand, for the toolbar
+ * - saved: the server has everything
+ * - saving: changes are waiting for autosave or for the server to acknowledge them
+ * - unsaved: autosave is off and there are changes to save
+ * - offline: not connected; changes are kept on this device until we're back
+ * - conflict: the server refused the last save; save manually or refresh
+ */
+export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'offline' | 'conflict';
+
+/**
+ * Local and remote edits that touch the same lines, waiting on the user
+ * The remote replica and its revision are only adopted once resolved.
+ */
+interface PendingConflict {
+  chunks: MergeChunk[];
+  remoteDoc: CRDTDocument;
+  revision: number;
+}
+
+/**
+ * One undoable unit of local editing
+ * Edits of the same kind are added to the latest step until typing pauses
+ * or a line ends.
+ */
+interface UndoStep {
+  record: EditRecord;
+  kind: 'insert' | 'delete' | 'replace';
+  at: number;
+  // Takes no more edits
+  closed: boolean;
+}
+
+const isEmptyRecord = (record: EditRecord): boolean =>
+  record.inserted.length === 0 && record.deleted.length === 0;
+
+/**
+ * Where the caret goes after undo or redo: the end of the last change
+ */
+const caretAfter = (op: TextOperation): number | null => {
+  let index = 0;
+  let caret: number | null = null;
+  for (const c of op) {
+    if (typeof c === 'string') {
+      index += c.length;
+      caret = index;
+    } else if (c > 0) {
+      index += c;
+    } else {
+      caret = index;
+    }
+  }
+  return caret;
+};
+
+/**
+ * Another participant's caret or selection, as offsets into the local text
+ */
+export interface RemoteCursor {
+  clientId: string;
+  displayName: string;
+  color: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * The document text before and after an update someone else saved
+ */
+export interface RemoteChange {
+  before: string;
+  after: string;
+}
 
 interface UseSocketSyncProps {
   documentId: string;
   initialContent?: string;
+  // Send local changes automatically once typing pauses
+  autosave?: boolean;
+  autosaveDelay?: number;
+  // Called when the user asks to see what someone else's update changed
+  onViewRemoteChange?: (change: RemoteChange) => void;
+  // From a share link; sent when joining so the server lets us in
+  shareToken?: string;
 }
 
-export const useSocketSync = ({ documentId, initialContent = "" }: UseSocketSyncProps) => {
+export const useSocketSync = ({
+  documentId,
+  initialContent = "",
+  autosave = false,
+  autosaveDelay = AUTOSAVE_DELAY,
+  onViewRemoteChange,
+  shareToken
+}: UseSocketSyncProps) => {
   const [content, setContent] = useState(initialContent);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -24,142 +187,929 @@ export const useSocketSync = ({ documentId, initialContent = "" }: UseSocketSync
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [clientId] = useState(() => uuidv4());
-  
+  const [hasPendingChanges, setHasPendingChanges] = useState(false);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [cursors, setCursors] = useState<Record<string, CursorSelection>>({});
+  const [isConnected, setIsConnected] = useState(() => getSocket().connected);
+  const [isAwaitingAck, setIsAwaitingAck] = useState(false);
+  const [hasConflict, setHasConflict] = useState(false);
+  const [conflictChunks, setConflictChunks] = useState<MergeChunk[] | null>(null);
+  // Our role, plus members and links if we own the document
+  const [access, setAccess] = useState<DocumentAccessPayload | null>(null);
+  // How the document is shown, the same for everyone in it
+  const [format, setFormat] = useState<DocumentFormat>('plain');
+  const formatRef = useRef<DocumentFormat>('plain');
+  // The app is only shown signed in (see AuthGate), and remounts for
+  // another user, so the session can be read once
+  const [userId] = useState(() => getSession()?.user.id ?? null);
+  const [identity] = useState(() => ({
+    color: getParticipantColor(userId ?? clientId)
+  }));
+
+  // The replica and sync bookkeeping live in refs so socket handlers
+  // always see the latest values. docRef is what the user sees;
+  // serverDocRef is the server's version at serverRevisionRef, which the
+  // local edits in docRef were made on top of. outboxRef holds the local
+  // edits queued for sending, each relative to the server's version plus
+  // the entries before it; the first one is in flight while awaiting an ack.
+  const docRef = useRef<CRDTDocument>(createDocument(clientId));
+  const serverDocRef = useRef<CRDTDocument>(createDocument(clientId));
+  const serverRevisionRef = useRef(0);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const conflictRef = useRef<PendingConflict | null>(null);
+  const awaitingMergeRef = useRef(false);
+  const savePendingRef = useRef(false);
+  const editCountRef = useRef(0);
+  const sentEditCountRef = useRef(0);
+  // Only this user's edits, by item id, so undo never reverts anyone else's
+  // and keeps working as their updates are merged in
+  const undoStackRef = useRef<UndoStep[]>([]);
+  const redoStackRef = useRef<UndoStep[]>([]);
+  const saveWaitersRef = useRef<{ resolve: () => void; reject: (err: Error) => void }[]>([]);
+  const localCursorRef = useRef<CursorSelection | null>(null);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const awaitingAckRef = useRef(false);
+  const autosaveRef = useRef(autosave);
+  autosaveRef.current = autosave;
+  const onViewRemoteChangeRef = useRef(onViewRemoteChange);
+  onViewRemoteChangeRef.current = onViewRemoteChange;
+  // Read when joining; dropping it from the address later mustn't restart
+  // the session
+  const shareTokenRef = useRef(shareToken);
+  shareTokenRef.current = shareToken;
+  // Nothing is written back until what's kept on this device has been
+  // read, so an empty replica can't overwrite it
+  const restoredRef = useRef(false);
+  const lastSyncedAtRef = useRef<string | null>(null);
+
+  // Keep the replica on this device. Everything the server hasn't
+  // acknowledged is pending, including a push still waiting for its answer.
+  // Nothing is written once the user has signed out, since what they kept
+  // here is being cleared.
+  const persistDocument = useCallback(() => {
+    if (!restoredRef.current) return;
+    if (!userId || getSession()?.user.id !== userId) return;
+    const pending = hasChangesSince(docRef.current, serverDocRef.current)
+      ? encodeUpdate(docRef.current, getStateVector(serverDocRef.current))
+      : null;
+    const record: OfflineDocument = {
+      userId,
+      documentId,
+      content: getText(docRef.current),
+      update: encodeUpdate(docRef.current),
+      base: encodeUpdate(serverDocRef.current),
+      baseRevision: serverRevisionRef.current,
+      pending,
+      outbox: outboxRef.current,
+      savePending: savePendingRef.current,
+      lastSyncedAt: lastSyncedAtRef.current,
+      format: formatRef.current,
+      updatedAt: new Date().toISOString()
+    };
+    saveOfflineDocument(record).catch(err => {
+      console.warn("Failed to keep document on this device:", err);
+    });
+  }, [documentId, userId]);
+
+  const applyFormat = useCallback((next: DocumentFormat) => {
+    formatRef.current = next;
+    setFormat(next);
+  }, []);
+
+  // The server confirmed our version of the document
+  const markSynced = useCallback(() => {
+    lastSyncedAtRef.current = new Date().toISOString();
+  }, []);
+
+  // Whether a push is waiting for the server's document_saved
+  const markAwaitingAck = useCallback((awaiting: boolean) => {
+    awaitingAckRef.current = awaiting;
+    setIsAwaitingAck(awaiting);
+  }, []);
+
+  // Whether docRef has edits the server hasn't accepted yet
+  const hasLocalChanges = useCallback(() =>
+    editCountRef.current !== sentEditCountRef.current || outboxRef.current.length > 0 || conflictRef.current !== null,
+  []);
+
+  // Send the first queued update, based on the server's revision we know.
+  // One update is in flight at a time and the rest follow, in order, as
+  // each one is acknowledged. While offline they wait for the reconnect;
+  // nothing goes out while newer changes are being fetched for a merge or
+  // a conflict is open.
+  const flushOutbox = useCallback(() => {
+    const entry = outboxRef.current[0];
+    if (!entry || awaitingAckRef.current || conflictRef.current || awaitingMergeRef.current) return;
+    if (!getSocket().connected) {
+      console.log(`Offline, keeping ${outboxRef.current.length} queued updates until we reconnect`);
+      return;
+    }
+
+    console.log(`Sending update ${entry.id} with ${entry.update.runs.length} new runs based on revision ${serverRevisionRef.current}`);
+    markAwaitingAck(true);
+    const author = entry.clientId ?? entry.update.runs[0]?.client ?? clientId;
+    sendDocumentUpdate(documentId, entry.update, author, serverRevisionRef.current, entry.id);
+  }, [documentId, clientId, markAwaitingAck]);
+
+  // Queue every local edit the outbox doesn't have yet, keep the queue on
+  // this device, and send it. Edits restored from an earlier session were
+  // typed under its client id and are queued on their own, since the
+  // server only takes characters from the client that typed them.
+  const pushLocalChanges = useCallback(() => {
+    if (conflictRef.current || awaitingMergeRef.current) return;
+
+    if (editCountRef.current !== sentEditCountRef.current) {
+      const queued = loadDocument(clientId, encodeUpdate(serverDocRef.current));
+      outboxRef.current.forEach(entry => applyUpdate(queued, entry.update));
+      sentEditCountRef.current = editCountRef.current;
+      if (hasChangesSince(docRef.current, queued)) {
+        const update = encodeUpdate(docRef.current, getStateVector(queued));
+        const queuedAt = new Date().toISOString();
+        const entries = splitUpdateByClient(update, clientId)
+          .map(part => ({ id: uuidv4(), clientId: part.client, update: part.update, queuedAt }));
+        outboxRef.current = [...outboxRef.current, ...entries];
+      }
+      persistDocument();
+    }
+
+    flushOutbox();
+  }, [clientId, persistDocument, flushOutbox]);
+
+  // Replace the local replica with the server's version plus local edits
+  // producing the merged text, so the next save only carries the merge.
+  // Each changed run of lines is edited on its own, so the text between
+  // them keeps its ids and the carets anchored to it.
+  const rebaseLocalChanges = useCallback((mergedText: string) => {
+    // Queued updates were made on the replica being replaced
+    outboxRef.current = [];
+    const rebased = loadDocument(clientId, encodeUpdate(serverDocRef.current));
+    // Never reuse clocks from the discarded local edits
+    rebased.clock = Math.max(rebased.clock, docRef.current.clock);
+    const change = diffLinesToOperation(getText(rebased), mergedText);
+    applyTextOperation(rebased, change);
+    docRef.current = rebased;
+    // The recorded edits refer to the discarded replica
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+
+    if (isNoop(change)) {
+      // The other version already had everything we changed
+      sentEditCountRef.current = editCountRef.current;
+      savePendingRef.current = false;
+    } else {
+      editCountRef.current++;
+    }
+    setHasPendingChanges(editCountRef.current !== sentEditCountRef.current);
+    setContent(getText(rebased));
+    persistDocument();
+  }, [clientId, persistDocument]);
+
+  const settleSaveWaiters = useCallback((err?: Error) => {
+    const waiters = saveWaitersRef.current;
+    saveWaitersRef.current = [];
+    waiters.forEach(waiter => (err ? waiter.reject(err) : waiter.resolve()));
+  }, []);
+
   // Initialize connection and set up listeners
   useEffect(() => {
     console.log("=== SOCKET SYNC INITIALIZATION ===");
     console.log("Initializing document with client ID:", clientId);
-    
+
     try {
+      // Start from a clean slate, this also runs when switching documents
       setLoading(true);
-      
-      // Try to get content from localStorage first for faster initial load
-      const savedContent = localStorage.getItem(`document_${documentId}_content`);
-      if (savedContent) {
-        console.log("Restoring content from localStorage");
-        setContent(savedContent);
-      } else {
-        setContent(initialContent);
-      }
-      
+      setError(null);
+      setLastSaved(null);
+      setParticipants([]);
+      setCursors({});
+      setAccess(null);
+      applyFormat('plain');
+      setHasConflict(false);
+      setConflictChunks(null);
+      markAwaitingAck(false);
+      localCursorRef.current = null;
+      conflictRef.current = null;
+      awaitingMergeRef.current = false;
+      outboxRef.current = [];
+      savePendingRef.current = false;
+      editCountRef.current = 0;
+      sentEditCountRef.current = 0;
+      undoStackRef.current = [];
+      redoStackRef.current = [];
+      setHasPendingChanges(false);
+      restoredRef.current = false;
+      lastSyncedAtRef.current = null;
+      docRef.current = createDocument(clientId);
+      serverDocRef.current = createDocument(clientId);
+      serverRevisionRef.current = 0;
+      setContent(initialContent);
+      let cancelled = false;
+
+      // Restore the local replica first, including edits made offline
+      const restoreDocument = (record: OfflineDocument | null) => {
+        if (!record) return;
+        applyFormat(record.format ?? 'plain');
+        if (!record.update) {
+          // Only the text is known; show it until the server's version arrives
+          console.log("Showing document text kept on this device");
+          setContent(record.content);
+          return;
+        }
+        console.log("Restoring document replica from this device");
+        const dirty = record.pending !== null;
+        docRef.current = loadDocument(clientId, record.update);
+        // Replicas saved before bases were kept have edits on an unknown
+        // base; merging against an empty one leaves the choice to the user
+        serverDocRef.current = record.base ? loadDocument(clientId, record.base) : createDocument(clientId);
+        serverRevisionRef.current = record.baseRevision;
+        outboxRef.current = record.outbox ?? [];
+        savePendingRef.current = record.savePending;
+        lastSyncedAtRef.current = record.lastSyncedAt;
+        editCountRef.current = dirty ? 1 : 0;
+        setHasPendingChanges(dirty);
+        setContent(getText(docRef.current));
+      };
+
       // Set up socket connection
       const socket = getSocket();
-      
-      // Join the document room
-      joinDocument(documentId, clientId);
-      
-      // Request latest document content from server
-      requestDocumentContent(documentId);
-      
+
+      // Join the document room and exchange state vectors, again after
+      // every reconnect so changes made on either side while apart merge.
+      // Updates queued while offline, or never acknowledged, are replayed.
+      const syncWithServer = () => {
+        setIsConnected(socket.connected);
+        joinDocument(documentId, clientId, { ...identity, shareToken: shareTokenRef.current });
+        requestDocumentContent(documentId, getStateVector(serverDocRef.current));
+        flushOutbox();
+        if (localCursorRef.current) {
+          sendCursorUpdate(documentId, clientId, localCursorRef.current);
+        }
+      };
+      // Only sync once we know which version our local edits build on
+      (userId ? loadOfflineDocument(userId, documentId) : Promise.resolve(null))
+        .catch(err => {
+          console.warn("Couldn't read the document kept on this device:", err);
+          return null;
+        })
+        .then(record => {
+          if (cancelled) return;
+          restoreDocument(record);
+          restoredRef.current = true;
+          // Offline there's no server version coming, so open the copy on
+          // this device right away; edits are queued until we reconnect
+          if (record?.update && !socket.connected) {
+            console.log("Not connected, opening the copy kept on this device");
+            setLoading(false);
+          }
+          syncWithServer();
+          socket.on('connect', syncWithServer);
+        });
+
+      // Errors reported by the server or found while validating its messages.
+      // Malformed messages are dropped so they can't corrupt the editor;
+      // anything else means this session can't continue.
+      const handleDocumentError = (errorData: DocumentErrorPayload) => {
+        console.error("Document error:", errorData.message);
+        toast.error(errorData.message);
+        if (errorData.code === 'invalid_payload') return;
+        setError(errorData.message);
+        setLoading(false);
+      };
+
+      const reportMalformed = (event: string, details: string) => {
+        handleDocumentError({
+          documentId,
+          code: 'invalid_payload',
+          message: `Ignored malformed ${event} message from server (${details})`
+        });
+      };
+
       // Set up listeners for document events
-      socket.on('document_content', (data: { content: string; updatedAt: string }) => {
-        console.log("Received document content from server");
-        setContent(data.content);
+      const onJoined = (payload: unknown) => {
+        const parsed = parsePayload(documentJoinedSchema, payload);
+        if (parsed.error) return reportMalformed('document_joined', parsed.error);
+        const data = parsed.data;
+        if (data.documentId !== documentId) return;
+
+        if (data.protocolVersion !== PROTOCOL_VERSION) {
+          handleDocumentError({
+            documentId,
+            code: 'unsupported_protocol',
+            message: `The server speaks protocol version ${data.protocolVersion} but this page speaks version ${PROTOCOL_VERSION}. Please reload the page.`
+          });
+        }
+      };
+
+      const onContent = (payload: unknown) => {
+        const parsed = parsePayload(documentContentSchema, payload);
+        if (parsed.error) return reportMalformed('document_content', parsed.error);
+        const data = parsed.data;
+        if (data.documentId !== documentId) return;
+
+        console.log("Received document changes from server at revision:", data.revision);
         if (data.updatedAt) {
           setLastSaved(new Date(data.updatedAt));
         }
+        applyFormat(data.format);
         setLoading(false);
-      });
-      
-      socket.on('document_updated', (data: { 
-        content: string; 
-        updatedAt: string; 
-        clientId: string;
-      }) => {
+
+        // Our in-flight save will tell us how it went
+        if (awaitingAckRef.current) return;
+        awaitingMergeRef.current = false;
+
+        if (!hasLocalChanges()) {
+          applyUpdate(serverDocRef.current, data.update);
+          applyUpdate(docRef.current, data.update);
+          serverRevisionRef.current = Math.max(serverRevisionRef.current, data.revision);
+          markSynced();
+          setContent(getText(docRef.current));
+          persistDocument();
+          return;
+        }
+
+        // Merge what changed on the server since our base with our edits.
+        // The update is relative to our base, so it also covers anything an
+        // open conflict was computed from.
+        const remoteDoc = loadDocument(clientId, encodeUpdate(serverDocRef.current));
+        applyUpdate(remoteDoc, data.update);
+
+        const baseText = getText(serverDocRef.current);
+        const localText = getText(docRef.current);
+        const remoteText = getText(remoteDoc);
+        const merge = mergeText(baseText, localText, remoteText);
+
+        if (merge.hasConflicts) {
+          console.log("Local and remote changes overlap, asking the user");
+          const isNew = !conflictRef.current;
+          conflictRef.current = { chunks: merge.chunks, remoteDoc, revision: data.revision };
+          setConflictChunks(merge.chunks);
+          if (isNew) {
+            toast.warning("Your changes overlap with changes from another user");
+          }
+          settleSaveWaiters(new Error("Resolve the conflicting changes to finish saving"));
+          return;
+        }
+
+        conflictRef.current = null;
+        setConflictChunks(null);
+        if (remoteText === baseText) {
+          // Nothing changed on the server's side, our edits stay on top
+          serverDocRef.current = remoteDoc;
+          serverRevisionRef.current = data.revision;
+          applyUpdate(docRef.current, data.update);
+        } else {
+          console.log("Merged remote changes with local edits");
+          serverDocRef.current = remoteDoc;
+          serverRevisionRef.current = data.revision;
+          rebaseLocalChanges(applyResolutions(merge.chunks, []));
+          toast.info("Merged your changes with changes from another user");
+          if (editCountRef.current === sentEditCountRef.current) {
+            settleSaveWaiters();
+          }
+        }
+
+        // A save requested while offline or refused as stale goes out again
+        // as soon as it's merged, as does anything autosave couldn't send
+        const hasUnsent = editCountRef.current !== sentEditCountRef.current;
+        if (hasUnsent && (savePendingRef.current || autosaveRef.current)) {
+          console.log("Sending merged local changes");
+          pushLocalChanges();
+        } else {
+          flushOutbox();
+        }
+      };
+
+      const onUpdated = (payload: unknown) => {
         console.log("=== DOCUMENT UPDATE RECEIVED ===");
-        
+        const parsed = parsePayload(documentUpdatedSchema, payload);
+        if (parsed.error) return reportMalformed('document_updated', parsed.error);
+        const data = parsed.data;
+        if (data.documentId !== documentId) return;
+
         // Skip updates from the same client (our own updates)
         if (data.clientId === clientId) {
           console.log("Ignoring own update (same client ID)");
           return;
         }
-        
-        console.log("Applying external update");
-        setContent(data.content);
+
+        // Our own edits from another tab are still someone else's update here
+        const author = data.userId === getSession()?.user.id ? "You (in another tab)" : data.displayName;
+
+        // Offers a look at what the update changed, compared with the
+        // saved version it was made on
+        const viewChangesAction = (before: string, after: string) =>
+          onViewRemoteChangeRef.current && before !== after
+            ? { label: "View changes", onClick: () => onViewRemoteChangeRef.current?.({ before, after }) }
+            : undefined;
+
+        // Our unsaved edits are merged with this line by line when we save
+        if (hasLocalChanges()) {
+          console.log("Deferring external update until local changes are saved");
+          let action: ReturnType<typeof viewChangesAction>;
+          if (data.revision === serverRevisionRef.current + 1) {
+            const remoteDoc = loadDocument(clientId, encodeUpdate(serverDocRef.current));
+            applyUpdate(remoteDoc, data.update);
+            action = viewChangesAction(getText(serverDocRef.current), getText(remoteDoc));
+          }
+          toast.info(`${author} updated the document. Your changes will be merged when you save.`, { action });
+          return;
+        }
+
+        // Missed an update, so fetch everything since our version instead
+        if (data.revision !== serverRevisionRef.current + 1) {
+          console.log(`Expected revision ${serverRevisionRef.current + 1} but got ${data.revision}, resyncing`);
+          requestDocumentContent(documentId, getStateVector(serverDocRef.current));
+          return;
+        }
+
+        console.log("Merging external update");
+        const before = getText(serverDocRef.current);
+        applyUpdate(serverDocRef.current, data.update);
+        const change = applyUpdate(docRef.current, data.update);
+        serverRevisionRef.current = data.revision;
+        markSynced();
         setLastSaved(new Date(data.updatedAt));
-        toast.info("Document was updated by another user");
-      });
-      
-      socket.on('document_error', (errorData: { message: string }) => {
-        console.error("Document error:", errorData.message);
-        setError(errorData.message);
-        setLoading(false);
-        toast.error(errorData.message);
-      });
+        if (!isNoop(change)) {
+          setContent(getText(docRef.current));
+          persistDocument();
+          toast.info(`${author} updated the document`, {
+            action: viewChangesAction(before, getText(serverDocRef.current))
+          });
+        }
+      };
+
+      const onSaved = (payload: unknown) => {
+        const parsed = parsePayload(documentSavedSchema, payload);
+        if (parsed.error) return reportMalformed('document_saved', parsed.error);
+        const data = parsed.data;
+        if (data.documentId && data.documentId !== documentId) return;
+
+        // An answer to an update we've since dropped (the replica was
+        // rebased or refreshed) says nothing about what's queued now
+        const entry = outboxRef.current[0];
+        if (data.updateId && data.updateId !== entry?.id) {
+          console.log("Ignoring acknowledgement for update", data.updateId);
+          return;
+        }
+        markAwaitingAck(false);
+
+        if (data.success) {
+          console.log(data.duplicate ? "Replayed update had already been saved" : "Update acknowledged by server");
+          setHasConflict(false);
+          // The server was at our base revision, so it now holds exactly
+          // our base plus what we sent
+          outboxRef.current = outboxRef.current.slice(1);
+          if (entry) {
+            applyUpdate(serverDocRef.current, entry.update);
+          }
+          if (data.revision !== undefined) {
+            serverRevisionRef.current = data.revision;
+          }
+          markSynced();
+          const queued = outboxRef.current.length > 0;
+          // Edits typed while the save was in flight are still unsaved
+          setHasPendingChanges(editCountRef.current !== sentEditCountRef.current || queued);
+          setLastSaved(data.updatedAt ? new Date(data.updatedAt) : new Date());
+          if (!queued) {
+            savePendingRef.current = false;
+          }
+          persistDocument();
+
+          // The first answer was lost, so others may have saved since;
+          // catch up on what we missed
+          if (data.duplicate) {
+            requestDocumentContent(documentId, getStateVector(serverDocRef.current));
+          }
+
+          // A save is only done once everything queued for it has arrived
+          if (queued) {
+            flushOutbox();
+          } else {
+            settleSaveWaiters();
+          }
+        } else if (data.conflict) {
+          // Someone saved first; fetch their changes, merge, then save again.
+          // The queued updates were based on the old revision, so the merge
+          // queues our edits afresh.
+          console.log("Save refused as stale, fetching newer changes to merge");
+          outboxRef.current = [];
+          sentEditCountRef.current = -1;
+          savePendingRef.current = true;
+          awaitingMergeRef.current = true;
+          persistDocument();
+          requestDocumentContent(documentId, getStateVector(serverDocRef.current));
+        } else {
+          console.error("Save error:", data.error);
+          // Nothing queued is known to have arrived; a later save starts over
+          outboxRef.current = [];
+          sentEditCountRef.current = -1;
+          setHasConflict(true);
+          persistDocument();
+          settleSaveWaiters(new Error(data.error || "Failed to save document"));
+        }
+      };
+
+      const onError = (payload: unknown) => {
+        const parsed = parsePayload(documentErrorSchema, payload);
+        if (parsed.error) return reportMalformed('document_error', parsed.error);
+        if (parsed.data.documentId && parsed.data.documentId !== documentId) return;
+        if (parsed.data.request === FORMAT_REQUEST) {
+          // The format was changed here before the server agreed; fetch the real one
+          toast.error(parsed.data.message);
+          requestDocumentContent(documentId, getStateVector(serverDocRef.current));
+          return;
+        }
+        if (parsed.data.request === CLAIM_REQUEST) {
+          toast.error(parsed.data.message);
+          return;
+        }
+        if (parsed.data.request && !SESSION_REQUESTS.includes(parsed.data.request)) return;
+        handleDocumentError(parsed.data);
+      };
+
+      const onFormat = (payload: unknown) => {
+        const parsed = parsePayload(documentFormatSchema, payload);
+        if (parsed.error) return reportMalformed('document_format', parsed.error);
+        if (parsed.data.documentId !== documentId) return;
+        console.log("Document format is now", parsed.data.format);
+        applyFormat(parsed.data.format);
+        persistDocument();
+      };
+
+      let knownClientIds = new Set<string>();
+      const onPresence = (payload: unknown) => {
+        const parsed = parsePayload(presenceUpdateSchema, payload);
+        if (parsed.error) return reportMalformed('presence_update', parsed.error);
+        const data = parsed.data;
+        if (data.documentId !== documentId) return;
+
+        // The server dropped us (missed heartbeats), so announce ourselves again
+        if (socket.connected && !data.participants.some(p => p.clientId === clientId)) {
+          console.log("Missing from presence list, rejoining");
+          joinDocument(documentId, clientId, { ...identity, shareToken: shareTokenRef.current });
+        }
+
+        // Newcomers haven't seen our cursor yet
+        const arrived = data.participants.some(p => p.clientId !== clientId && !knownClientIds.has(p.clientId));
+        knownClientIds = new Set(data.participants.map(p => p.clientId));
+        if (arrived && localCursorRef.current) {
+          sendCursorUpdate(documentId, clientId, localCursorRef.current);
+        }
+        setParticipants(data.participants);
+      };
+
+      const onAccess = (payload: unknown) => {
+        const parsed = parsePayload(documentAccessSchema, payload);
+        if (parsed.error) return reportMalformed('document_access', parsed.error);
+        if (parsed.data.documentId !== documentId) return;
+        console.log("Our role in the document:", parsed.data.role);
+        setAccess(parsed.data);
+      };
+
+      const onCursor = (payload: unknown) => {
+        const parsed = parsePayload(cursorUpdatedSchema, payload);
+        if (parsed.error) return reportMalformed('cursor_updated', parsed.error);
+        const data = parsed.data;
+        if (data.documentId !== documentId || data.clientId === clientId) return;
+
+        setCursors(previous => {
+          const next = { ...previous };
+          if (data.cursor) {
+            next[data.clientId] = data.cursor;
+          } else {
+            delete next[data.clientId];
+          }
+          return next;
+        });
+      };
+
+      // Nobody's presence can be known while we're disconnected
+      const onDisconnect = () => {
+        knownClientIds = new Set();
+        setParticipants([]);
+        setCursors({});
+        setIsConnected(false);
 
-      // Mark loading complete if socket takes too long
-      const loadingTimeout = setTimeout(() => {
-        if (loading) {
-          console.log("Socket taking too long, showing content anyway");
-          setLoading(false);
+        // An acknowledgement can't arrive any more; the update stays first
+        // in the outbox and is sent again, with the same id, on reconnect
+        if (awaitingAckRef.current) {
+          markAwaitingAck(false);
         }
-      }, 3000);
-      
+      };
+
+      socket.on('document_joined', onJoined);
+      socket.on('document_content', onContent);
+      socket.on('document_updated', onUpdated);
+      socket.on('document_saved', onSaved);
+      socket.on('document_error', onError);
+      socket.on('presence_update', onPresence);
+      socket.on('cursor_updated', onCursor);
+      socket.on('document_access', onAccess);
+      socket.on('document_format', onFormat);
+      socket.on('disconnect', onDisconnect);
+
+      const heartbeatInterval = setInterval(() => {
+        if (socket.connected) {
+          sendPresenceHeartbeat(documentId, clientId);
+        }
+      }, PRESENCE_HEARTBEAT_INTERVAL);
+
       // Clean up function
       return () => {
         console.log("Cleaning up socket connection");
+        cancelled = true;
+        // Later writes would be for the next document's replica
+        persistDocument();
+        restoredRef.current = false;
         leaveDocument(documentId, clientId);
-        socket.off('document_content');
-        socket.off('document_updated');
-        socket.off('document_error');
-        clearTimeout(loadingTimeout);
+        socket.off('connect', syncWithServer);
+        socket.off('document_joined', onJoined);
+        socket.off('document_content', onContent);
+        socket.off('document_updated', onUpdated);
+        socket.off('document_saved', onSaved);
+        socket.off('document_error', onError);
+        socket.off('presence_update', onPresence);
+        socket.off('cursor_updated', onCursor);
+        socket.off('document_access', onAccess);
+        socket.off('document_format', onFormat);
+        socket.off('disconnect', onDisconnect);
+        clearInterval(heartbeatInterval);
+        if (cursorTimerRef.current) {
+          clearTimeout(cursorTimerRef.current);
+          cursorTimerRef.current = null;
+        }
+
+        // Saves still waiting on the old document will never be acknowledged
+        settleSaveWaiters(new Error("Switched to another document"));
       };
     } catch (err) {
       console.error("Setup error:", err);
       setError("Failed to initialize. Please check your connection.");
       setLoading(false);
     }
-  }, [documentId, clientId, initialContent]);
+  }, [documentId, clientId, userId, identity, initialContent, persistDocument, pushLocalChanges, flushOutbox, rebaseLocalChanges, hasLocalChanges, settleSaveWaiters, markAwaitingAck, markSynced, applyFormat]);
 
-  // Save content to localStorage when it changes
+  // Show the content anyway if the server takes too long; the timer stops
+  // as soon as loading finishes
   useEffect(() => {
-    if (content && !loading) {
-      localStorage.setItem(`document_${documentId}_content`, content);
+    if (!loading) return;
+    const loadingTimeout = setTimeout(() => {
+      console.log("Socket taking too long, showing content anyway");
+      setLoading(false);
+    }, 3000);
+    return () => clearTimeout(loadingTimeout);
+  }, [loading]);
+
+  // Keep the replica on this device when it changes
+  useEffect(() => {
+    if (!loading) {
+      persistDocument();
     }
-  }, [content, documentId, loading]);
+  }, [content, loading, persistDocument]);
 
-  // Handle beforeunload to save content
+  // Handle beforeunload to save the replica
   useEffect(() => {
-    const handleBeforeUnload = () => {
-      localStorage.setItem(`document_${documentId}_content`, content);
-    };
-    
-    window.addEventListener('beforeunload', handleBeforeUnload);
-    
+    window.addEventListener('beforeunload', persistDocument);
+
     return () => {
-      window.removeEventListener('beforeunload', handleBeforeUnload);
+      window.removeEventListener('beforeunload', persistDocument);
+    };
+  }, [persistDocument]);
+
+  // Record a local edit in the replica
+  // A separate undo step is never grouped with typing around it, for edits
+  // like replace-all that should be undone on their own
+  const updateContent = useCallback((newContent: string, options: { separateUndoStep?: boolean } = {}) => {
+    const doc = docRef.current;
+    const record = recordEdit(doc, () => replaceText(doc, newContent));
+    if (isEmptyRecord(record)) return;
+    editCountRef.current++;
+    setContent(getText(doc));
+    setHasPendingChanges(true);
+
+    const now = Date.now();
+    const kind = record.deleted.length === 0 ? 'insert' : record.inserted.length === 0 ? 'delete' : 'replace';
+    const undoStack = undoStackRef.current;
+    const last = undoStack[undoStack.length - 1];
+    const separate = options.separateUndoStep || kind === 'replace';
+    if (last && !last.closed && !separate && last.kind === kind && now - last.at < UNDO_GROUP_MS) {
+      last.record = {
+        inserted: [...last.record.inserted, ...record.inserted],
+        deleted: [...last.record.deleted, ...record.deleted]
+      };
+      last.at = now;
+    } else {
+      if (last) last.closed = true;
+      undoStack.push({ record, kind, at: now, closed: separate });
+      if (undoStack.length > UNDO_LIMIT) undoStack.shift();
+    }
+    if (getItemsText(doc, record.inserted).includes('\n')) {
+      undoStack[undoStack.length - 1].closed = true;
+    }
+    redoStackRef.current = [];
+  }, []);
+
+  // Reverts the latest step from one stack and puts its inverse on the other
+  // Steps whose text others have already removed are skipped.
+  const revertStep = useCallback((from: UndoStep[], to: UndoStep[]): number | null => {
+    const doc = docRef.current;
+    const before = getText(doc);
+    let step = from.pop();
+    while (step) {
+      const inverse = revertEdit(doc, step.record);
+      if (!isEmptyRecord(inverse)) {
+        to.push({ ...step, record: inverse, closed: true });
+        break;
+      }
+      step = from.pop();
+    }
+    // Later typing starts a new step rather than joining one being undone
+    const latest = from[from.length - 1];
+    if (latest) latest.closed = true;
+
+    const after = getText(doc);
+    if (after === before) return null;
+    editCountRef.current++;
+    setContent(after);
+    setHasPendingChanges(true);
+    return caretAfter(diffToOperation(before, after));
+  }, []);
+
+  /**
+   * Undoes the latest local edit
+   * @returns Where to put the caret, or null if there was nothing to undo
+   */
+  const undo = useCallback(() => {
+    console.log("Undoing local edit, steps:", undoStackRef.current.length);
+    return revertStep(undoStackRef.current, redoStackRef.current);
+  }, [revertStep]);
+
+  /**
+   * Redoes the latest undone edit
+   * @returns Where to put the caret, or null if there was nothing to redo
+   */
+  const redo = useCallback(() => {
+    console.log("Redoing local edit, steps:", redoStackRef.current.length);
+    return revertStep(redoStackRef.current, undoStackRef.current);
+  }, [revertStep]);
+
+  // Rich-text documents travel as their serialized form, so they sync,
+  // merge and save like any other text
+  const richDocument = useMemo<RichDocument | null>(
+    () => isRichText(content) ? parseRichDocument(content) : null,
+    [content]
+  );
+
+  const updateRichDocument = useCallback((doc: RichDocument) => {
+    updateContent(serializeRichDocument(doc));
+  }, [updateContent]);
+
+  // Autosave: once typing pauses, send whatever the server hasn't seen.
+  // One push is in flight at a time; edits made meanwhile go out after the
+  // acknowledgement. A refused save stops autosave until the user acts.
+  const debouncedContent = useDebounce(content, autosaveDelay);
+  useEffect(() => {
+    if (!autosave || loading || !isConnected || isAwaitingAck || hasConflict || conflictChunks) return;
+    if (!hasPendingChanges || content !== debouncedContent) return;
+
+    // Edits that left nothing the server doesn't have are already saved.
+    // Clearing the document is a change like any other and goes out.
+    if (outboxRef.current.length === 0 && !hasChangesSince(docRef.current, serverDocRef.current)) {
+      sentEditCountRef.current = editCountRef.current;
+      setHasPendingChanges(false);
+      return;
+    }
+
+    console.log("Autosaving local changes");
+    pushLocalChanges();
+  }, [autosave, loading, isConnected, isAwaitingAck, hasConflict, conflictChunks, hasPendingChanges, content, debouncedContent, pushLocalChanges]);
+
+  let saveStatus: SaveStatus = 'saved';
+  if (!isConnected) {
+    saveStatus = 'offline';
+  } else if (hasConflict || conflictChunks) {
+    saveStatus = 'conflict';
+  } else if (isSaving || isAwaitingAck || (autosave && hasPendingChanges)) {
+    saveStatus = 'saving';
+  } else if (hasPendingChanges) {
+    saveStatus = 'unsaved';
+  }
+
+  // Share the local selection, throttled so dragging a selection doesn't
+  // flood the socket. Anchors are taken right away so the offsets still
+  // mean the same text by the time the update goes out.
+  const updateSelection = useCallback((selection: { start: number; end: number } | null) => {
+    localCursorRef.current = selection && {
+      start: selection.start,
+      end: selection.end,
+      startAnchor: getRelativePosition(docRef.current, selection.start),
+      endAnchor: getRelativePosition(docRef.current, selection.end)
     };
-  }, [content, documentId]);
+
+    if (cursorTimerRef.current) return;
+    cursorTimerRef.current = setTimeout(() => {
+      cursorTimerRef.current = null;
+      if (getSocket().connected) {
+        sendCursorUpdate(documentId, clientId, localCursorRef.current);
+      }
+    }, CURSOR_THROTTLE_MS);
+  }, [documentId, clientId]);
+
+  // Place everyone else's cursor in the current text. Anchors keep a cursor
+  // on the same characters as edits arrive; if they point at text we don't
+  // have yet (the other person's unsaved edits) the raw offsets are used.
+  const remoteCursors = useMemo<RemoteCursor[]>(() => {
+    const length = content.length;
+    const resolve = (offset: number, anchor: CursorSelection['startAnchor']) => {
+      const resolved = resolveRelativePosition(docRef.current, anchor);
+      return Math.min(resolved ?? offset, length);
+    };
+
+    return participants
+      .filter(p => p.clientId !== clientId && cursors[p.clientId])
+      .map(p => {
+        const cursor = cursors[p.clientId];
+        const start = resolve(cursor.start, cursor.startAnchor);
+        const end = resolve(cursor.end, cursor.endAnchor);
+        return {
+          clientId: p.clientId,
+          displayName: p.displayName,
+          color: p.color,
+          start: Math.min(start, end),
+          end: Math.max(start, end)
+        };
+      });
+  }, [content, participants, cursors, clientId]);
+
+  // Settle an open conflict: one choice per conflicting chunk, in order.
+  // The result becomes a local edit on top of the other user's version and
+  // is saved right away.
+  const resolveConflict = useCallback((resolutions: ConflictResolution[]) => {
+    const conflict = conflictRef.current;
+    if (!conflict) return;
+
+    console.log("Resolving conflict with choices:", resolutions);
+    conflictRef.current = null;
+    setConflictChunks(null);
+    serverDocRef.current = conflict.remoteDoc;
+    serverRevisionRef.current = conflict.revision;
+    rebaseLocalChanges(applyResolutions(conflict.chunks, resolutions));
+
+    if (editCountRef.current !== sentEditCountRef.current) {
+      savePendingRef.current = true;
+      pushLocalChanges();
+    }
+  }, [rebaseLocalChanges, pushLocalChanges]);
 
   // Function to manually refresh content from server
+  // Local unsaved edits are discarded by going back to the server's version
+  // we have and fetching what changed since. An update already sent stays
+  // in flight, since the server may have merged it; its answer settles it.
   const refreshContent = useCallback(async () => {
     console.log("=== MANUAL REFRESH REQUESTED ===");
     setIsRefreshing(true);
-    
+
     try {
-      requestDocumentContent(documentId);
-      
+      const inFlight = awaitingAckRef.current ? outboxRef.current[0] : undefined;
+      const refreshed = loadDocument(clientId, encodeUpdate(serverDocRef.current));
+      // Never reuse clocks from the discarded local edits, the server may
+      // already hold some of them
+      refreshed.clock = Math.max(refreshed.clock, docRef.current.clock);
+      if (inFlight) {
+        applyUpdate(refreshed, inFlight.update);
+      }
+      docRef.current = refreshed;
+      undoStackRef.current = [];
+      redoStackRef.current = [];
+      savePendingRef.current = false;
+      sentEditCountRef.current = editCountRef.current;
+      outboxRef.current = inFlight ? [inFlight] : [];
+      conflictRef.current = null;
+      awaitingMergeRef.current = false;
+      setConflictChunks(null);
+      setHasPendingChanges(Boolean(inFlight));
+      setHasConflict(false);
+      setContent(getText(refreshed));
+      persistDocument();
+      requestDocumentContent(documentId, getStateVector(serverDocRef.current));
+
       // Set a timeout for the response
       const timeoutPromise = new Promise<void>((_, reject) => {
         setTimeout(() => reject(new Error("Refresh timed out")), 5000);
       });
-      
+
       // Create a promise that resolves when document_content is received
       const refreshPromise = new Promise<void>((resolve) => {
         const socket = getSocket();
-        const onContent = (data: { content: string; updatedAt: string }) => {
+        const onContent = () => {
           console.log("Received refreshed content from server");
-          setContent(data.content);
-          if (data.updatedAt) {
-            setLastSaved(new Date(data.updatedAt));
-          }
           socket.off('document_content', onContent);
           resolve();
         };
-        
+
         socket.on('document_content', onContent);
       });
-      
+
       await Promise.race([refreshPromise, timeoutPromise]);
       console.log("=== MANUAL REFRESH COMPLETED ===");
       return Promise.resolve();
@@ -170,65 +1120,54 @@ export const useSocketSync = ({ documentId, initialContent = "" }: UseSocketSync
     } finally {
       setIsRefreshing(false);
     }
-  }, [documentId]);
+  }, [documentId, clientId, persistDocument]);
 
   // Function to save content to server
   const saveContent = useCallback(async (newContent: string) => {
     console.log("=== SAVE CONTENT OPERATION STARTED ===");
-    
-    // Skip saving if content is empty
-    if (!newContent || newContent.trim() === "") {
-      console.log("Empty content, skipping save");
-      return Promise.reject(new Error("Cannot save empty content"));
+
+    if (conflictRef.current) {
+      return Promise.reject(new Error("Resolve the conflicting changes first"));
     }
-    
+
     console.log(`Saving content with length: ${newContent.length}`);
     console.log("Content sample:", newContent.substring(0, 50));
-    
+
+    updateContent(newContent);
+
     setIsSaving(true);
-    
-    // Save to localStorage as a backup
-    localStorage.setItem(`document_${documentId}_content`, newContent);
-    
+    savePendingRef.current = true;
+
     try {
       console.log("Saving via Socket.io with client ID:", clientId);
-      sendDocumentUpdate(documentId, newContent, clientId);
-      
-      // Create a promise that resolves when the save is acknowledged
+
+      // Resolves only once the server has acknowledged everything queued
       const savePromise = new Promise<void>((resolve, reject) => {
-        const socket = getSocket();
-        
-        const onSaved = (data: { success: boolean; updatedAt?: string; error?: string }) => {
-          socket.off('document_saved', onSaved);
-          
-          if (data.success) {
-            const newTimestamp = data.updatedAt ? new Date(data.updatedAt) : new Date();
-            setContent(newContent);
-            setLastSaved(newTimestamp);
-            console.log("Update complete - New timestamp:", newTimestamp.toLocaleTimeString());
-            resolve();
-          } else {
-            console.error("Save error:", data.error);
-            reject(new Error(data.error || "Failed to save document"));
-          }
-        };
-        
-        socket.once('document_saved', onSaved);
-        
-        // Set a timeout in case the server doesn't respond
+        saveWaitersRef.current.push({ resolve, reject });
+
+        // The changes stay queued either way and are sent again on
+        // reconnect, but the caller shouldn't report them as saved
         setTimeout(() => {
-          socket.off('document_saved', onSaved);
-          
-          // If we don't get a confirmation, we still update locally
-          setContent(newContent);
-          setLastSaved(new Date());
-          
-          // We resolve with a warning instead of rejecting
-          console.warn("Save operation timed out, but content was updated locally");
-          resolve();
-        }, 5000);
+          const index = saveWaitersRef.current.findIndex(waiter => waiter.resolve === resolve);
+          if (index === -1) return;
+          saveWaitersRef.current.splice(index, 1);
+          console.warn("Save operation timed out, changes kept in the outbox");
+          reject(new Error("The server didn't confirm the save. Your changes are kept on this device and will be sent again."));
+        }, SAVE_TIMEOUT_MS);
       });
-      
+
+      // Queues the edits and keeps them on this device before sending, so
+      // the save survives going offline
+      pushLocalChanges();
+
+      if (!getSocket().connected) {
+        settleSaveWaiters(new Error("You're offline. Your changes are kept on this device and will be saved when you reconnect."));
+      } else if (outboxRef.current.length === 0 && !awaitingMergeRef.current) {
+        // The server already has everything
+        savePendingRef.current = false;
+        settleSaveWaiters();
+      }
+
       await savePromise;
       console.log("=== SAVE CONTENT OPERATION COMPLETED ===");
       return Promise.resolve();
@@ -238,18 +1177,61 @@ export const useSocketSync = ({ documentId, initialContent = "" }: UseSocketSync
     } finally {
       setIsSaving(false);
     }
-  }, [documentId, clientId]);
+  }, [clientId, updateContent, pushLocalChanges, settleSaveWaiters]);
+
+  /**
+   * Changes how the document is shown, for everyone in it
+   * Shown here straight away; the server tells everyone else.
+   */
+  const changeFormat = useCallback((next: DocumentFormat) => {
+    console.log("Changing document format to", next);
+    applyFormat(next);
+    persistDocument();
+    setDocumentFormat(documentId, next);
+  }, [documentId, applyFormat, persistDocument]);
+
+  /**
+   * Asks to become the owner of a document nobody owns yet
+   * The new role arrives with document_access.
+   */
+  const claimOwnership = useCallback(() => {
+    console.log("Claiming the document");
+    claimDocument(documentId);
+  }, [documentId]);
+
+  /**
+   * The server's version that local changes are based on
+   */
+  const getSavedContent = useCallback(() => getText(serverDocRef.current), []);
 
   return {
     content,
-    setContent,
+    updateContent,
+    richDocument,
+    updateRichDocument,
+    undo,
+    redo,
+    hasPendingChanges,
+    saveStatus,
     loading,
     error,
     isSaving,
     isRefreshing,
     lastSaved,
     clientId,
+    participants,
+    // Null until the server has let us in
+    role: access?.role ?? null,
+    access,
+    format,
+    changeFormat,
+    claimOwnership,
+    conflictChunks,
+    resolveConflict,
+    remoteCursors,
+    updateSelection,
     saveContent,
-    refreshContent
+    refreshContent,
+    getSavedContent
   };
 };
@@ -0,0 +1,152 @@
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { FileText, Plus, RefreshCw, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import UserMenu from "@/components/UserMenu";
+import { useDocumentList } from "@/hooks/useDocumentList";
+import { useCommands } from "@/hooks/useCommands";
+import { generateDocumentId } from "@/utils/documents";
+import { chooseImportFile, getImportedContent, getNaturalImportTarget, readImportFile } from "@/utils/import";
+
+interface DocumentRowProps {
+  id: string;
+  title: string;
+  timestamp: string;
+  timestampLabel: string;
+}
+
+const DocumentRow = ({ id, title, timestamp, timestampLabel }: DocumentRowProps) => (
+  <li>
+    <Link
+      to={`/d/${encodeURIComponent(id)}`}
+      className="flex items-center gap-3 px-3 py-2.5 rounded-md hover:bg-muted"
+    >
+      <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+      <span className="flex-1 truncate text-foreground">
+        {title || <span className="text-muted-foreground">Untitled ({id})</span>}
+      </span>
+      <span className="text-xs text-muted-foreground shrink-0">
+        {timestampLabel} {formatDistanceToNow(new Date(timestamp), { addSuffix: true })}
+      </span>
+    </Link>
+  </li>
+);
+
+const Documents = () => {
+  const navigate = useNavigate();
+  const { documents, recentDocuments, loading, refresh } = useDocumentList();
+
+  const handleCreate = () => {
+    const documentId = generateDocumentId();
+    console.log("Documents: Creating new document:", documentId);
+    navigate(`/d/${documentId}`);
+  };
+
+  // The file is converted here so a bad one is reported before leaving the
+  // list; the new document fills itself in once it has loaded
+  const handleImport = async () => {
+    const file = await chooseImportFile();
+    if (!file) return;
+
+    try {
+      const imported = await readImportFile(file);
+      const target = getNaturalImportTarget(imported.format);
+      const importedContent = getImportedContent(imported, target);
+
+      const documentId = generateDocumentId();
+      console.log("Documents: Creating document", documentId, "from", imported.name);
+      const importedFormat = target === 'markdown' ? 'markdown' : undefined;
+      navigate(`/d/${documentId}`, { state: { importedContent, importedFormat } });
+    } catch (err) {
+      console.error("Documents: Import failed:", err);
+      toast.error((err as Error).message || "Failed to import file");
+    }
+  };
+
+  useCommands([
+    {
+      id: 'documents.import',
+      title: "New document from file...",
+      group: "Go to",
+      keywords: ["import", "open", "upload"],
+      run: handleImport
+    }
+  ]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="max-w-2xl mx-auto p-8 md:p-16">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-2xl font-semibold">Documents</h1>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={refresh}
+              disabled={loading}
+              className="h-8 px-2.5 text-xs"
+            >
+              <RefreshCw className={`h-3.5 w-3.5 mr-1 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleImport}
+              className="h-8 px-2.5 text-xs"
+            >
+              <Upload className="h-3.5 w-3.5 mr-1" />
+              Import
+            </Button>
+            <Button size="sm" onClick={handleCreate} className="h-8 px-2.5 text-xs">
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              New document
+            </Button>
+            <UserMenu />
+          </div>
+        </div>
+
+        {recentDocuments.length > 0 && (
+          <section className="mb-8">
+            <h2 className="text-sm font-medium text-muted-foreground mb-2">Recently opened on this device</h2>
+            <ul>
+              {recentDocuments.map(doc => (
+                <DocumentRow
+                  key={doc.id}
+                  id={doc.id}
+                  title={doc.title}
+                  timestamp={doc.lastOpened}
+                  timestampLabel="Opened"
+                />
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section>
+          <h2 className="text-sm font-medium text-muted-foreground mb-2">All documents</h2>
+          {loading && documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground px-3">Loading documents...</p>
+          ) : documents.length === 0 ? (
+            <p className="text-sm text-muted-foreground px-3">No documents yet. Create one to get started.</p>
+          ) : (
+            <ul>
+              {documents.map(doc => (
+                <DocumentRow
+                  key={doc.id}
+                  id={doc.id}
+                  title={doc.title}
+                  timestamp={doc.updatedAt}
+                  timestampLabel="Updated"
+                />
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default Documents;
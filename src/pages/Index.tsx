@@ -1,64 +1,300 @@
 
-import { useEffect, useState } from "react";
-import TextEditor from "@/components/TextEditor";
-import { useSocketSync } from "@/hooks/useSocketSync";
-import { Badge } from "@/components/ui/badge";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import TextEditor, { TextEditorHandle } from "@/components/TextEditor";
+import PresenceAvatars from "@/components/PresenceAvatars";
+import ConflictDialog from "@/components/ConflictDialog";
+import HistorySheet from "@/components/HistorySheet";
+import DiffDialog, { DiffComparison, TextSource } from "@/components/DiffDialog";
+import SaveStatusIndicator from "@/components/SaveStatusIndicator";
+import ConnectionStatusPill from "@/components/ConnectionStatusPill";
+import MarkdownPreview from "@/components/MarkdownPreview";
+import RichTextEditor from "@/components/RichTextEditor";
+import FindReplacePanel, { FindRequest } from "@/components/FindReplacePanel";
+import ExportMenu from "@/components/ExportMenu";
+import FileDropZone from "@/components/FileDropZone";
+import UserMenu from "@/components/UserMenu";
+import ShareDialog from "@/components/ShareDialog";
+import { RemoteChange, useSocketSync } from "@/hooks/useSocketSync";
+import { useCommands } from "@/hooks/useCommands";
+import { useSession } from "@/hooks/useSession";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Save } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { ArrowLeft, GitCompare, History, KeyRound, RefreshCw, Save, Search, Share2, Upload } from "lucide-react";
 import { toast } from "sonner";
+import { getDocumentTitle, recordRecentDocument } from "@/utils/documents";
+import { EXPORT_FORMATS, ExportFormat, exportDocument } from "@/utils/export";
+import { ImportTarget, chooseImportFile, getImportedContent, readImportFile } from "@/utils/import";
+import {
+  getPlainText,
+  hasFormatting,
+  richDocumentFromPlainText,
+  serializeRichDocument
+} from "@/utils/richText";
+import type { TextRange } from "@/utils/search";
+import { DocumentFormat, hasRole } from "@/utils/protocol";
+import { formatShortcut } from "@/utils/commands";
+import {
+  getAutosavePreference,
+  setAutosavePreference
+} from "@/utils/preferences";
 
 const Index = () => {
+  const { documentId } = useParams<{ documentId: string }>();
+  const session = useSession();
+  const userId = session?.user.id;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const shareToken = searchParams.get("share") ?? undefined;
+  const [autosave, setAutosave] = useState(getAutosavePreference);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [diffOpen, setDiffOpen] = useState(false);
+  const [diffView, setDiffView] = useState<{ comparison: DiffComparison; textSources: TextSource[] }>({
+    comparison: { from: 'saved', to: 'current' },
+    textSources: []
+  });
+
+  const editorRef = useRef<TextEditorHandle>(null);
+  const [findOpen, setFindOpen] = useState(false);
+  const [findRequest, setFindRequest] = useState<FindRequest>({ key: 0, query: "", replace: false });
+  const [searchHighlights, setSearchHighlights] = useState<{ matches: TextRange[]; active: number | null }>({
+    matches: [],
+    active: null
+  });
+
+  const openDiff = (comparison: DiffComparison, textSources: TextSource[] = []) => {
+    setDiffView({ comparison, textSources });
+    setDiffOpen(true);
+  };
+
+  const handleViewRemoteChange = ({ before, after }: RemoteChange) => {
+    console.log("Index: Viewing another user's update");
+    openDiff({ from: 'remote-before', to: 'remote-after' }, [
+      { key: 'remote-before', label: 'Before their update', text: before },
+      { key: 'remote-after', label: 'After their update', text: after }
+    ]);
+  };
+
   const {
     content,
+    updateContent,
+    richDocument,
+    updateRichDocument,
+    undo,
+    redo,
+    hasPendingChanges: isDirty,
+    saveStatus,
     loading,
     error,
     isSaving,
     isRefreshing,
     lastSaved,
+    participants,
+    role,
+    access,
+    format,
+    changeFormat,
+    claimOwnership,
+    conflictChunks,
+    resolveConflict,
+    remoteCursors,
+    updateSelection,
     saveContent,
-    refreshContent
+    refreshContent,
+    getSavedContent
   } = useSocketSync({
-    documentId: 'shared'
+    documentId,
+    autosave,
+    onViewRemoteChange: handleViewRemoteChange,
+    shareToken
   });
 
-  const [isDirty, setIsDirty] = useState(false);
-  const [localContent, setLocalContent] = useState("");
-  
-  // Set initial content when it's loaded
+  // Once a share link has let us in we're a member, so the token comes out
+  // of the address rather than being shared along with it
+  useEffect(() => {
+    if (!role || !shareToken) return;
+    console.log("Index: Joined with a share link as", role);
+    setSearchParams(params => {
+      params.delete("share");
+      return params;
+    }, { replace: true });
+  }, [role, shareToken, setSearchParams]);
+
+  // Remember this document on this device, with its latest title
+  const title = getDocumentTitle(content);
   useEffect(() => {
-    if (!loading && content) {
-      console.log("Index: Setting initial editor content:", content.substring(0, 50));
-      setLocalContent(content);
+    if (!loading) {
+      recordRecentDocument(documentId, title);
     }
-  }, [loading, content]);
+  }, [documentId, loading, title]);
+
+  // A new document started from a file on the documents page; the state is
+  // cleared straight away so reloading doesn't import it again
+  const location = useLocation();
+  const navigate = useNavigate();
+  useEffect(() => {
+    const state = location.state as { importedContent?: string; importedFormat?: DocumentFormat } | null;
+    if (loading || state?.importedContent === undefined) return;
+    console.log("Index: Filling new document from an imported file");
+    navigate(location.pathname, { replace: true, state: null });
+    if (state.importedFormat) changeFormat(state.importedFormat);
+    updateContent(state.importedContent, { separateUndoStep: true });
+  }, [loading, location, navigate, updateContent, changeFormat]);
+
+  const isRichText = richDocument !== null;
+
+  // Viewers and commenters only ever see the document; anyone can choose
+  // to with ?mode=view, e.g. for a screen nobody types on. Until the
+  // server says otherwise (or while offline) we assume we can edit.
+  const canEdit = role === null || hasRole(role, 'editor');
+  const readOnly = searchParams.get("mode") === "view" || !canEdit;
+
+  const handleViewOnlyChange = (enabled: boolean) => {
+    console.log("Index: View only", enabled ? "enabled" : "disabled");
+    setSearchParams(params => {
+      if (enabled) {
+        params.set("mode", "view");
+      } else {
+        params.delete("mode");
+      }
+      return params;
+    }, { replace: true });
+  };
+
+  // Find and replace starts from the selected text when it's on one line
+  const openFind = (replace: boolean) => {
+    const selected = window.getSelection()?.toString() ?? "";
+    setFindRequest(previous => ({
+      key: previous.key + 1,
+      query: selected && !selected.includes("\n") ? selected : "",
+      replace
+    }));
+    setFindOpen(true);
+  };
+
+  const handleSearchMatchesChange = useCallback((matches: TextRange[], active: number | null) => {
+    setSearchHighlights({ matches, active });
+  }, []);
+
+  // One edit for however many matches, so a single undo reverts it
+  const handleFindReplace = (newContent: string) => {
+    updateContent(newContent, { separateUndoStep: true });
+  };
 
   const handleContentChange = (newContent: string) => {
     console.log("Index: Content changed by user, length:", newContent.length);
-    setLocalContent(newContent);
-    setIsDirty(true);
+    updateContent(newContent);
   };
 
-  const handleSave = () => {
-    console.log("Index: Save button clicked");
-    
-    if (!localContent || localContent.trim() === "") {
-      toast.error("Cannot save empty content");
+  const handleAutosaveChange = (enabled: boolean) => {
+    console.log("Index: Autosave", enabled ? "enabled" : "disabled");
+    setAutosave(enabled);
+    setAutosavePreference(enabled);
+  };
+
+  // Everyone in the document sees the same rendering
+  const markdown = format === 'markdown';
+  const handleMarkdownChange = (enabled: boolean) => {
+    console.log("Index: Markdown mode", enabled ? "enabled" : "disabled", "for", documentId);
+    changeFormat(enabled ? 'markdown' : 'plain');
+  };
+
+  // Converting is an ordinary edit, so it reaches everyone else like typing
+  const handleRichTextChange = (enabled: boolean) => {
+    if (enabled) {
+      console.log("Index: Converting document to rich text");
+      updateContent(serializeRichDocument(richDocumentFromPlainText(content)));
       return;
     }
+    if (richDocument && hasFormatting(richDocument) &&
+        !confirm("Converting to plain text removes all formatting. Continue?")) {
+      return;
+    }
+    console.log("Index: Converting document to plain text");
+    updateContent(getPlainText(richDocument));
+  };
+
+  const handleSave = () => {
+    console.log("Index: Save button clicked");
     
     toast.promise(
       async () => {
-        await saveContent(localContent);
-        setIsDirty(false);
+        await saveContent(content);
       },
       {
         loading: "Saving document...",
         success: "Document saved successfully",
-        error: "Failed to save document"
+        // Unconfirmed saves stay queued; the message says so
+        error: (err: Error) => err.message || "Failed to save document"
       }
     );
   };
 
+  // Restoring saves the old text on top of the current one, so it becomes
+  // a new revision and nothing in between is lost from history
+  const handleRestore = (revisionContent: string, revision: number) => {
+    console.log("Index: Restoring revision", revision);
+    toast.promise(
+      async () => {
+        await saveContent(revisionContent);
+      },
+      {
+        loading: `Restoring revision ${revision}...`,
+        success: `Restored revision ${revision}`,
+        error: (err: Error) => err.message || "Failed to restore this version"
+      }
+    );
+  };
+
+  const handleCompareRevision = (revision: number) => {
+    console.log("Index: Comparing revision", revision, "with the editor");
+    setHistoryOpen(false);
+    openDiff({ from: `revision:${revision}`, to: 'current' });
+  };
+
+  // Exports what's in the editor, including changes not saved yet
+  const handleExport = async (format: ExportFormat) => {
+    console.log("Index: Export requested as", format);
+    try {
+      await exportDocument({ title, savedAt: lastSaved, content, richDocument, markdown }, format);
+    } catch (err) {
+      console.error("Index: Export failed:", err);
+      toast.error("Failed to export document");
+    }
+  };
+
+  // Replaces the whole document with a file, as one edit that can be undone.
+  // The file is converted to this document's kind, except that a Markdown
+  // file turns on the preview
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = await readImportFile(file);
+      const target: ImportTarget = richDocument ? 'rich' : markdown || imported.format === 'md' ? 'markdown' : 'plain';
+      const newContent = getImportedContent(imported, target);
+
+      const currentText = richDocument ? getPlainText(richDocument) : content;
+      if (currentText.trim() !== "" &&
+          !confirm(`Replace everything in this document with the contents of ${imported.name}?`)) {
+        return;
+      }
+
+      console.log("Index: Importing", imported.name, "as", target);
+      if (target === 'markdown' && !markdown) handleMarkdownChange(true);
+      updateContent(newContent, { separateUndoStep: true });
+      toast.success(`Imported ${imported.name}`);
+    } catch (err) {
+      console.error("Index: Import failed:", err);
+      toast.error((err as Error).message || "Failed to import file");
+    }
+  };
+
+  const handleChooseImportFile = async () => {
+    const file = await chooseImportFile();
+    if (file) await handleImportFile(file);
+  };
+
   const handleRefresh = () => {
     console.log("Index: Refresh button clicked");
     
@@ -72,7 +308,6 @@ const Index = () => {
     toast.promise(
       async () => {
         await refreshContent();
-        setIsDirty(false);
       },
       {
         loading: "Refreshing document...",
@@ -82,9 +317,155 @@ const Index = () => {
     );
   };
 
+  // Listed in the command palette; Ctrl+F and Ctrl+H replace the browser's
+  // find while a plain-text document is open
+  useCommands([
+    {
+      id: 'document.save',
+      title: "Save",
+      group: "Document",
+      shortcut: "Mod+S",
+      enabled: !loading && !isSaving && !readOnly,
+      run: () => {
+        if (isDirty) {
+          handleSave();
+        } else {
+          toast.info("No unsaved changes");
+        }
+      }
+    },
+    {
+      id: 'document.refresh',
+      title: "Refresh from server",
+      group: "Document",
+      keywords: ["reload"],
+      enabled: !loading && !isRefreshing,
+      run: handleRefresh
+    },
+    {
+      id: 'document.history',
+      title: "Show history",
+      group: "Document",
+      keywords: ["revisions", "versions", "restore"],
+      enabled: !loading,
+      run: () => setHistoryOpen(true)
+    },
+    {
+      id: 'document.compare',
+      title: "Compare with saved version",
+      group: "Document",
+      keywords: ["diff", "changes"],
+      enabled: !loading,
+      run: () => openDiff({ from: 'saved', to: 'current' })
+    },
+    {
+      id: 'document.share',
+      title: "Share...",
+      group: "Document",
+      keywords: ["link", "access", "permissions", "invite"],
+      enabled: role === 'owner',
+      run: () => setShareOpen(true)
+    },
+    {
+      id: 'document.claim',
+      title: "Claim ownership",
+      group: "Document",
+      keywords: ["owner", "access", "permissions"],
+      enabled: access?.unclaimed === true,
+      run: claimOwnership
+    },
+    {
+      id: 'document.import',
+      title: "Import from file...",
+      group: "Document",
+      keywords: ["open", "upload", "txt", "md", "html", "docx"],
+      enabled: !loading && !readOnly,
+      run: handleChooseImportFile
+    },
+    ...EXPORT_FORMATS.map(({ format, label, extension }) => ({
+      id: `document.export-${format}`,
+      title: `${label} (${extension})`,
+      group: "Export",
+      keywords: ["export", "download"],
+      enabled: !loading,
+      run: () => handleExport(format)
+    })),
+    {
+      id: 'document.export-pdf',
+      title: "Print or save as PDF",
+      group: "Export",
+      keywords: ["export"],
+      enabled: !loading,
+      run: () => handleExport('pdf')
+    },
+    {
+      id: 'edit.find',
+      title: "Find",
+      group: "Edit",
+      shortcut: "Mod+F",
+      keywords: ["search"],
+      enabled: !loading && !isRichText,
+      run: () => openFind(false)
+    },
+    {
+      id: 'edit.replace',
+      title: "Replace",
+      group: "Edit",
+      shortcut: "Mod+H",
+      enabled: !loading && !isRichText && !readOnly,
+      run: () => openFind(true)
+    },
+    {
+      id: 'view.markdown',
+      title: markdown ? "Hide Markdown preview" : "Show Markdown preview",
+      group: "View",
+      enabled: !loading && !isRichText && !readOnly,
+      run: () => handleMarkdownChange(!markdown)
+    },
+    {
+      id: 'view.rich-text',
+      title: isRichText ? "Convert to plain text" : "Convert to rich text",
+      group: "View",
+      keywords: ["formatting"],
+      enabled: !loading && !readOnly,
+      run: () => handleRichTextChange(!isRichText)
+    },
+    {
+      id: 'view.autosave',
+      title: autosave ? "Turn off autosave" : "Turn on autosave",
+      group: "View",
+      enabled: !loading && !readOnly,
+      run: () => handleAutosaveChange(!autosave)
+    },
+    {
+      id: 'view.read-only',
+      title: readOnly ? "Switch to editing" : "Switch to view only",
+      group: "View",
+      keywords: ["read-only", "readonly", "lock"],
+      enabled: !loading && canEdit,
+      run: () => handleViewOnlyChange(!readOnly)
+    }
+  ]);
+
+  const editor = (
+    <TextEditor 
+      ref={editorRef}
+      content={loading ? "" : content}
+      onChange={handleContentChange}
+      value={content}
+      remoteCursors={remoteCursors}
+      onSelectionChange={updateSelection}
+      onUndo={undo}
+      onRedo={redo}
+      highlights={searchHighlights.matches}
+      activeHighlight={searchHighlights.active}
+      readOnly={readOnly}
+    />
+  );
+
   if (error) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-white text-black">
+      <div className="min-h-screen flex items-center justify-center bg-background text-foreground">
         <div className="p-4 max-w-md">
           <p className="text-lg">{error}</p>
           <button 
@@ -99,28 +480,119 @@ const Index = () => {
   }
 
   return (
-    <div className="min-h-screen bg-white">
+    <div className="min-h-screen bg-background">
       {loading ? (
         <div className="h-screen flex items-center justify-center">
-          <p className="text-black text-lg">Loading document...</p>
+          <p className="text-foreground text-lg">Loading document...</p>
         </div>
       ) : (
         <>
-          <div className="fixed top-0 right-0 p-3 z-10 flex flex-col items-end gap-2 bg-white/80 backdrop-blur-sm rounded-bl-md">
+          <div className="fixed top-0 right-0 p-3 z-10 flex flex-col items-end gap-2 bg-background/80 backdrop-blur-sm rounded-bl-md">
             <div className="flex items-center gap-2">
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={handleSave} 
-                disabled={isSaving || !isDirty}
+              <PresenceAvatars participants={participants} userId={userId} />
+
+              <UserMenu />
+
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
                 className="h-8 px-2.5 text-xs"
               >
-                <Save 
-                  className="h-3.5 w-3.5 mr-1" 
-                />
-                {isSaving ? 'Saving...' : 'Save'}
+                <Link to="/">
+                  <ArrowLeft className="h-3.5 w-3.5 mr-1" />
+                  Documents
+                </Link>
               </Button>
+
+              {!readOnly && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={handleSave} 
+                  disabled={isSaving || !isDirty}
+                  className="h-8 px-2.5 text-xs"
+                >
+                  <Save 
+                    className="h-3.5 w-3.5 mr-1" 
+                  />
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              )}
               
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setHistoryOpen(true)}
+                className="h-8 px-2.5 text-xs"
+              >
+                <History className="h-3.5 w-3.5 mr-1" />
+                History
+              </Button>
+
+              {role === 'owner' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShareOpen(true)}
+                  className="h-8 px-2.5 text-xs"
+                >
+                  <Share2 className="h-3.5 w-3.5 mr-1" />
+                  Share
+                </Button>
+              )}
+
+              {access?.unclaimed && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={claimOwnership}
+                  className="h-8 px-2.5 text-xs"
+                  title="Nobody owns this document yet; become its owner to share it and choose who may edit it"
+                >
+                  <KeyRound className="h-3.5 w-3.5 mr-1" />
+                  Claim
+                </Button>
+              )}
+
+              {!richDocument && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openFind(false)}
+                  className="h-8 px-2.5 text-xs"
+                  title={`${readOnly ? "Find" : "Find and replace"} (${formatShortcut("Mod+F")})`}
+                >
+                  <Search className="h-3.5 w-3.5 mr-1" />
+                  Find
+                </Button>
+              )}
+
+              {!readOnly && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleChooseImportFile}
+                  className="h-8 px-2.5 text-xs"
+                  title="Import a text, Markdown, HTML or Word file, or drop one on the editor"
+                >
+                  <Upload className="h-3.5 w-3.5 mr-1" />
+                  Import
+                </Button>
+              )}
+
+              <ExportMenu onExport={handleExport} />
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => openDiff({ from: 'saved', to: 'current' })}
+                className="h-8 px-2.5 text-xs"
+              >
+                <GitCompare className="h-3.5 w-3.5 mr-1" />
+                Compare
+              </Button>
+
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -134,24 +606,137 @@ const Index = () => {
                 {isRefreshing ? 'Refreshing...' : 'Refresh'}
               </Button>
 
-              {isDirty && (
-                <Badge variant="secondary" className="text-xs bg-yellow-100 text-yellow-800">
-                  Unsaved changes
-                </Badge>
+              <div
+                className="flex items-center gap-1.5"
+                title={canEdit ? undefined : "You can view this document but not edit it"}
+              >
+                <Switch
+                  id="view-only"
+                  checked={readOnly}
+                  onCheckedChange={handleViewOnlyChange}
+                  disabled={!canEdit}
+                  className="h-4 w-7 [&>span]:h-3 [&>span]:w-3 [&>span]:data-[state=checked]:translate-x-3"
+                />
+                <Label htmlFor="view-only" className="text-xs text-muted-foreground font-normal">
+                  View only
+                </Label>
+              </div>
+
+              {!readOnly && (
+                <>
+                  <div className="flex items-center gap-1.5">
+                    <Switch
+                      id="autosave"
+                      checked={autosave}
+                      onCheckedChange={handleAutosaveChange}
+                      className="h-4 w-7 [&>span]:h-3 [&>span]:w-3 [&>span]:data-[state=checked]:translate-x-3"
+                    />
+                    <Label htmlFor="autosave" className="text-xs text-muted-foreground font-normal">
+                      Autosave
+                    </Label>
+                  </div>
+
+                  <div className="flex items-center gap-1.5">
+                    <Switch
+                      id="rich-text"
+                      checked={richDocument !== null}
+                      onCheckedChange={handleRichTextChange}
+                      className="h-4 w-7 [&>span]:h-3 [&>span]:w-3 [&>span]:data-[state=checked]:translate-x-3"
+                    />
+                    <Label htmlFor="rich-text" className="text-xs text-muted-foreground font-normal">
+                      Rich text
+                    </Label>
+                  </div>
+                </>
               )}
-              
-              {!isDirty && lastSaved && !isSaving && (
-                <span className="text-xs text-gray-600">
-                  Last saved: {lastSaved.toLocaleTimeString()}
-                </span>
+
+              {!richDocument && (
+                <div className="flex items-center gap-1.5">
+                  <Switch
+                    id="markdown"
+                    checked={markdown}
+                    onCheckedChange={handleMarkdownChange}
+                    disabled={readOnly}
+                    className="h-4 w-7 [&>span]:h-3 [&>span]:w-3 [&>span]:data-[state=checked]:translate-x-3"
+                  />
+                  <Label htmlFor="markdown" className="text-xs text-muted-foreground font-normal">
+                    Markdown
+                  </Label>
+                </div>
               )}
+
+              <SaveStatusIndicator status={saveStatus} lastSaved={lastSaved} />
+
+              <ConnectionStatusPill />
             </div>
           </div>
           
-          <TextEditor 
-            content={loading ? "" : content}
-            onChange={handleContentChange}
-            value={localContent}
+          <FileDropZone onDropFile={handleImportFile} disabled={readOnly}>
+            {richDocument ? (
+              <RichTextEditor
+                value={richDocument}
+                onChange={updateRichDocument}
+                onUndo={undo}
+                onRedo={redo}
+                readOnly={readOnly}
+              />
+            ) : markdown ? (
+              // The toolbar sits over the top right, so the preview starts below it
+              <ResizablePanelGroup direction="horizontal" autoSaveId="markdown-split" className="h-screen">
+                <ResizablePanel defaultSize={50} minSize={25}>
+                  <div className="h-full overflow-y-auto">
+                    {editor}
+                  </div>
+                </ResizablePanel>
+                <ResizableHandle withHandle />
+                <ResizablePanel defaultSize={50} minSize={25}>
+                  <div className="h-full overflow-y-auto">
+                    <MarkdownPreview content={content} className="pt-20 md:pt-20 lg:pt-24" />
+                  </div>
+                </ResizablePanel>
+              </ResizablePanelGroup>
+            ) : editor}
+          </FileDropZone>
+
+          {findOpen && !richDocument && (
+            <FindReplacePanel
+              request={findRequest}
+              content={content}
+              onClose={() => setFindOpen(false)}
+              onMatchesChange={handleSearchMatchesChange}
+              onReplace={readOnly ? undefined : handleFindReplace}
+              onSelectMatch={match => editorRef.current?.selectRange(match)}
+            />
+          )}
+
+          <ConflictDialog chunks={conflictChunks} onResolve={resolveConflict} />
+
+          <HistorySheet
+            documentId={documentId}
+            open={historyOpen}
+            onOpenChange={setHistoryOpen}
+            userId={userId}
+            refreshKey={lastSaved?.getTime()}
+            onRestore={readOnly ? undefined : handleRestore}
+            onCompare={handleCompareRevision}
+          />
+
+          <ShareDialog
+            open={shareOpen}
+            onOpenChange={setShareOpen}
+            documentId={documentId}
+            access={access}
+            userId={userId}
+          />
+
+          <DiffDialog
+            open={diffOpen}
+            onOpenChange={setDiffOpen}
+            documentId={documentId}
+            currentContent={content}
+            savedContent={getSavedContent()}
+            comparison={diffView.comparison}
+            textSources={diffView.textSources}
           />
         </>
       )}
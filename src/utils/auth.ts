@@ -0,0 +1,65 @@
+import { SignInResponse, signInResponseSchema } from '@/utils/protocol';
+
+/**
+ * The signed-in session, kept outside React like the connection store so
+ * the socket module can read its token and any component can subscribe
+ * (useSyncExternalStore-compatible)
+ *
+ * It's remembered on this device until signing out, or until the server
+ * refuses the token; expiry is left to the server so the app still opens
+ * offline with an old session.
+ */
+
+// What the server answers a sign-in with
+export type AuthSession = SignInResponse;
+
+type Listener = () => void;
+
+const SESSION_KEY = 'auth_session';
+
+const loadSession = (): AuthSession | null => {
+  try {
+    const saved = localStorage.getItem(SESSION_KEY);
+    if (!saved) return null;
+    const parsed = signInResponseSchema.safeParse(JSON.parse(saved));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+let session: AuthSession | null = loadSession();
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * The current session, or null when nobody is signed in
+ */
+export const getSession = (): AuthSession | null => session;
+
+/**
+ * Calls the listener whenever someone signs in or out
+ * @returns A function that unsubscribes
+ */
+export const subscribeToSession = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setSession = (next: AuthSession): void => {
+  console.log("Auth: Signed in as", next.user.id);
+  session = next;
+  localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+  notify();
+};
+
+export const clearSession = (): void => {
+  if (!session) return;
+  console.log("Auth: Signed out");
+  session = null;
+  localStorage.removeItem(SESSION_KEY);
+  notify();
+};
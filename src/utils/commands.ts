@@ -0,0 +1,100 @@
+/**
+ * Registry of the actions offered in the command palette and by keyboard
+ * shortcut
+ *
+ * Features register their commands while they're on screen (see
+ * useCommands) and unregister them when they go away, so the palette only
+ * lists what can be done right now. Kept outside React like the connection
+ * store, with a useSyncExternalStore-compatible subscription.
+ */
+
+export interface Command {
+  // Unique; registering the same id again replaces the earlier command
+  id: string;
+  title: string;
+  // Heading the command is listed under in the palette
+  group: string;
+  // Like "Mod+S" or "Mod+Shift+E"; Mod is Cmd on macOS and Ctrl elsewhere
+  shortcut?: string;
+  // Other words the palette should find it by
+  keywords?: string[];
+  // Hidden from the palette and its shortcut ignored while false
+  enabled?: boolean;
+  run: () => void;
+}
+
+type Listener = () => void;
+
+let commands: Command[] = [];
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Adds commands, replacing any registered under the same ids
+ * @returns A function that removes them again
+ */
+export const registerCommands = (added: Command[]): (() => void) => {
+  const ids = new Set(added.map(command => command.id));
+  commands = [...commands.filter(command => !ids.has(command.id)), ...added];
+  notify();
+
+  return () => {
+    // Only remove them if nothing has replaced them since
+    const remaining = commands.filter(command => !added.includes(command));
+    if (remaining.length === commands.length) return;
+    commands = remaining;
+    notify();
+  };
+};
+
+/**
+ * Every registered command, in registration order; a new array each time
+ * the registry changes
+ */
+export const getCommands = (): Command[] => commands;
+
+export const subscribeToCommands = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Whether a keyboard event is the given shortcut, with exactly its modifiers
+ */
+export const matchesShortcut = (event: KeyboardEvent, shortcut: string): boolean => {
+  const parts = shortcut.split('+');
+  const key = parts.pop()?.toLowerCase();
+  const modifiers = new Set(parts.map(part => part.toLowerCase()));
+  const wantsMod = modifiers.has('mod');
+
+  const ctrl = modifiers.has('ctrl') || (wantsMod && !isMac);
+  const meta = modifiers.has('meta') || (wantsMod && isMac);
+  if (event.ctrlKey !== ctrl || event.metaKey !== meta) return false;
+  if (event.shiftKey !== modifiers.has('shift') || event.altKey !== modifiers.has('alt')) return false;
+
+  // Shift and Alt change event.key, so compare letters and digits by position
+  if (key && /^[a-z0-9]$/.test(key)) {
+    return event.code === (/\d/.test(key) ? `Digit${key}` : `Key${key.toUpperCase()}`);
+  }
+  return event.key.toLowerCase() === key;
+};
+
+const MAC_SYMBOLS: Record<string, string> = { mod: '⌘', meta: '⌘', ctrl: '⌃', shift: '⇧', alt: '⌥' };
+
+/**
+ * Shortcut as shown to the user: "⌘⇧E" on macOS, "Ctrl+Shift+E" elsewhere
+ */
+export const formatShortcut = (shortcut: string): string => {
+  const parts = shortcut.split('+');
+  if (isMac) {
+    return parts.map(part => MAC_SYMBOLS[part.toLowerCase()] ?? part.toUpperCase()).join('');
+  }
+  return parts
+    .map(part => part.toLowerCase() === 'mod' ? 'Ctrl' : part.length === 1 ? part.toUpperCase() : part)
+    .join('+');
+};
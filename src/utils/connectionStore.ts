@@ -0,0 +1,62 @@
+/**
+ * Connection state of the shared socket, kept outside React so the socket
+ * module can update it and any component can subscribe
+ * (useSyncExternalStore-compatible)
+ */
+
+/**
+ * - connecting: first attempt to reach the server
+ * - connected: talking to the server
+ * - reconnecting: lost the connection, trying again (see attempt)
+ * - offline: the browser reports no network, so nothing is attempted
+ * - failed: gave up after the maximum number of attempts
+ */
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'offline' | 'failed';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  // Current reconnection attempt, starting at 1
+  attempt: number;
+  maxAttempts: number;
+  // Round trip to the server in milliseconds, once measured
+  latency: number | null;
+  lastConnectedAt: string | null;
+}
+
+type Listener = () => void;
+
+let status: ConnectionStatus = {
+  state: 'connecting',
+  attempt: 0,
+  maxAttempts: 0,
+  latency: null,
+  lastConnectedAt: null
+};
+const listeners = new Set<Listener>();
+
+/**
+ * The current status; a new object each time it changes
+ */
+export const getConnectionStatus = (): ConnectionStatus => status;
+
+/**
+ * Calls the listener whenever the status changes
+ * @returns A function that unsubscribes
+ */
+export const subscribeToConnectionStatus = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Merges changes into the status and notifies subscribers
+ */
+export const updateConnectionStatus = (changes: Partial<ConnectionStatus>): void => {
+  const changed = (Object.keys(changes) as (keyof ConnectionStatus)[])
+    .some(key => changes[key] !== status[key]);
+  if (!changed) return;
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+};
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CRDTDocument,
+  createDocument,
+  loadDocument,
+  getText,
+  getStateVector,
+  hasChangesSince,
+  insertText,
+  deleteText,
+  encodeUpdate,
+  applyUpdate,
+  recordEdit,
+  revertEdit,
+  replaceText,
+  getRelativePosition,
+  resolveRelativePosition,
+  getNewItemClients,
+  splitUpdateByClient
+} from '@/utils/crdt';
+
+// Sends a replica everything another one has that it doesn't
+const sync = (from: CRDTDocument, to: CRDTDocument) =>
+  applyUpdate(to, encodeUpdate(from, getStateVector(to)));
+
+describe('crdt', () => {
+  it('inserts and deletes text at offsets', () => {
+    const doc = createDocument('a');
+    insertText(doc, 0, 'hello world');
+    deleteText(doc, 5, 6);
+    insertText(doc, 5, ', there');
+    expect(getText(doc)).toBe('hello, there');
+  });
+
+  it('converges on concurrent inserts at the same place', () => {
+    const base = createDocument('base');
+    insertText(base, 0, 'ac');
+    const a = loadDocument('a', encodeUpdate(base));
+    const b = loadDocument('b', encodeUpdate(base));
+
+    insertText(a, 1, 'X');
+    insertText(b, 1, 'Y');
+    sync(a, b);
+    sync(b, a);
+
+    expect(getText(a)).toBe(getText(b));
+    expect(getText(a)).toMatch(/^a(XY|YX)c$/);
+  });
+
+  it('converges when one side deletes what the other types after', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'one two');
+    const b = loadDocument('b', encodeUpdate(a));
+
+    deleteText(a, 3, 4);
+    insertText(b, 7, ' three');
+    sync(a, b);
+    sync(b, a);
+
+    expect(getText(a)).toBe('one three');
+    expect(getText(b)).toBe('one three');
+  });
+
+  it('only encodes what the other replica is missing', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'abc');
+    const b = loadDocument('b', encodeUpdate(a));
+    insertText(a, 3, 'def');
+
+    const update = encodeUpdate(a, getStateVector(b));
+    expect(update.runs).toEqual([{ client: 'a', clock: 4, origin: ['a', 3], content: 'def' }]);
+    expect(hasChangesSince(a, b)).toBe(true);
+    applyUpdate(b, update);
+    expect(hasChangesSince(a, b)).toBe(false);
+  });
+
+  it('keeps updates that arrive before the items they build on', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'first');
+    const first = encodeUpdate(a);
+    insertText(a, 5, ' second');
+    deleteText(a, 0, 1);
+    const second = encodeUpdate(a, getStateVector(loadDocument('x', first)));
+
+    const b = createDocument('b');
+    applyUpdate(b, second);
+    expect(getText(b)).toBe('');
+    applyUpdate(b, first);
+    expect(getText(b)).toBe('irst second');
+  });
+
+  it('ignores an update it has already merged', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'once');
+    const update = encodeUpdate(a);
+    const b = createDocument('b');
+    applyUpdate(b, update);
+    applyUpdate(b, update);
+    expect(getText(b)).toBe('once');
+  });
+
+  it('only deletes ids it has or is waiting for', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'abc');
+    applyUpdate(a, { runs: [], deletes: { a: [[3, 1e12]], x: [[1, 1e12]] } });
+    expect(getText(a)).toBe('ab');
+    expect(a.pendingDeletes.size).toBe(0);
+  });
+
+  it('reports what an update changed as an operation', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'abc');
+    const b = loadDocument('b', encodeUpdate(a));
+    insertText(a, 1, 'X');
+    expect(sync(a, b)).toEqual([1, 'X', 2]);
+  });
+
+  it('undoes a local edit without touching anyone else\'s', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'abc');
+    const b = loadDocument('b', encodeUpdate(a));
+
+    const record = recordEdit(a, () => insertText(a, 3, 'def'));
+    insertText(b, 0, '>');
+    sync(b, a);
+    expect(getText(a)).toBe('>abcdef');
+
+    const redo = revertEdit(a, record);
+    expect(getText(a)).toBe('>abc');
+    revertEdit(a, redo);
+    expect(getText(a)).toBe('>abcdef');
+  });
+
+  it('keeps relative positions on the same characters', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'hello world');
+    const position = getRelativePosition(a, 6);
+    insertText(a, 0, '>> ');
+    expect(resolveRelativePosition(a, position)).toBe(9);
+    deleteText(a, 3, 6);
+    expect(resolveRelativePosition(a, position)).toBe(3);
+  });
+
+  it('keeps clocks increasing after replacing the text', () => {
+    const a = createDocument('a');
+    replaceText(a, 'abc');
+    replaceText(a, 'abXc');
+    expect(a.clock).toBe(4);
+    expect(getText(a)).toBe('abXc');
+  });
+
+  it('finds the clients whose characters are new to a replica', () => {
+    const server = createDocument('server');
+    const a = createDocument('a');
+    insertText(a, 0, 'abc');
+    applyUpdate(server, encodeUpdate(a));
+
+    const b = loadDocument('b', encodeUpdate(a));
+    insertText(b, 3, 'd');
+    expect(getNewItemClients(server, encodeUpdate(b))).toEqual(['b']);
+    expect(getNewItemClients(server, encodeUpdate(a))).toEqual([]);
+  });
+
+  it('splits an update by the client that typed it', () => {
+    const a = createDocument('a');
+    insertText(a, 0, 'abc');
+    const b = loadDocument('b', encodeUpdate(a));
+    insertText(b, 3, 'd');
+    deleteText(b, 0, 1);
+
+    const parts = splitUpdateByClient(encodeUpdate(b), 'b');
+    expect(parts.map(part => part.client)).toEqual(['a', 'b']);
+    expect(parts.every(part => part.update.deletes.a?.length === 1)).toBe(true);
+
+    const c = createDocument('c');
+    parts.forEach(part => applyUpdate(c, part.update));
+    expect(getText(c)).toBe('bcd');
+    expect(splitUpdateByClient({ runs: [], deletes: {} }, 'b')).toEqual([
+      { client: 'b', update: { runs: [], deletes: {} } }
+    ]);
+  });
+});
@@ -0,0 +1,522 @@
+/**
+ * Sequence CRDT for plain-text documents
+ *
+ * Every character is an item with a unique id (client, Lamport clock) and
+ * the id of the item it was typed after (its origin). Concurrent inserts
+ * after the same origin are ordered by id, so replicas that have seen the
+ * same items always produce the same text no matter the order the updates
+ * arrived in. Deleted characters stay in the sequence as tombstones.
+ *
+ * Replicas sync by exchanging state vectors (highest clock seen per client)
+ * and updates (runs of items the other side is missing plus the delete set).
+ * Updates are plain JSON so they can be sent over the socket and persisted
+ * as-is.
+ */
+
+import { TextOperation, diffToOperation } from '@/utils/ot';
+
+export interface ItemId {
+  client: string;
+  clock: number;
+}
+
+interface Item {
+  id: ItemId;
+  origin: ItemId | null;
+  content: string;
+  deleted: boolean;
+}
+
+/**
+ * Highest clock integrated from each client
+ */
+export type StateVector = Record<string, number>;
+
+/**
+ * Consecutive characters typed by one client, each inserted after the
+ * previous one; the first is inserted after `origin`
+ */
+export interface EncodedRun {
+  client: string;
+  clock: number;
+  origin: [string, number] | null;
+  content: string;
+}
+
+/**
+ * What one replica sends another: missing items and every deletion it knows of
+ * Deletions are encoded per client as [startClock, length] ranges.
+ */
+export interface CRDTUpdate {
+  runs: EncodedRun[];
+  deletes: Record<string, [number, number][]>;
+}
+
+export interface CRDTDocument {
+  clientId: string;
+  clock: number;
+  items: Item[];
+  itemsById: Map<string, Item>;
+  stateVector: StateVector;
+  // Items and deletions received before the items they depend on
+  pendingItems: Item[];
+  pendingDeletes: Set<string>;
+}
+
+const idKey = (id: ItemId): string => `${id.client}:${id.clock}`;
+
+/**
+ * Total order on ids: by clock, ties broken by client id
+ */
+const compareIds = (a: ItemId, b: ItemId): number => {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.client < b.client ? -1 : a.client > b.client ? 1 : 0;
+};
+
+/**
+ * Creates an empty document replica for the given client
+ */
+export const createDocument = (clientId: string): CRDTDocument => ({
+  clientId,
+  clock: 0,
+  items: [],
+  itemsById: new Map(),
+  stateVector: {},
+  pendingItems: [],
+  pendingDeletes: new Set()
+});
+
+/**
+ * Current text of the document
+ */
+export const getText = (doc: CRDTDocument): string => {
+  let text = '';
+  for (const item of doc.items) {
+    if (!item.deleted) text += item.content;
+  }
+  return text;
+};
+
+/**
+ * Copy of the document's state vector, safe to send over the network
+ */
+export const getStateVector = (doc: CRDTDocument): StateVector => ({ ...doc.stateVector });
+
+/**
+ * Whether a replica has characters or deletions the other one is missing
+ * Updates always carry the whole delete set, so an update's runs alone
+ * don't tell whether it changes anything.
+ */
+export const hasChangesSince = (doc: CRDTDocument, other: CRDTDocument): boolean => {
+  const deletedInOther = new Set<string>();
+  for (const item of other.items) {
+    if (item.deleted) deletedInOther.add(`${item.id.client}:${item.id.clock}`);
+  }
+  return doc.items.some(item =>
+    item.id.clock > (other.stateVector[item.id.client] ?? 0) ||
+    (item.deleted && !deletedInOther.has(`${item.id.client}:${item.id.clock}`))
+  );
+};
+
+/**
+ * Places an item in the sequence; its origin must already be integrated
+ * @param hint Likely position of the origin, typically where the previous
+ * character of the same run went, to avoid searching the whole sequence
+ * @returns The position the item was placed at
+ */
+const integrateItem = (doc: CRDTDocument, item: Item, hint = -1): number => {
+  let position = 0;
+  if (item.origin) {
+    const originItem = doc.items[hint];
+    const origin = originItem && compareIds(originItem.id, item.origin) === 0
+      ? originItem
+      : doc.itemsById.get(idKey(item.origin));
+    position = (origin === originItem ? hint : doc.items.indexOf(origin)) + 1;
+  }
+
+  // Skip concurrent inserts at the same spot that sort before this one.
+  // Lamport clocks guarantee anything typed after those also sorts first.
+  while (position < doc.items.length && compareIds(doc.items[position].id, item.id) > 0) {
+    position++;
+  }
+
+  doc.items.splice(position, 0, item);
+  doc.itemsById.set(idKey(item.id), item);
+  doc.clock = Math.max(doc.clock, item.id.clock);
+  doc.stateVector[item.id.client] = Math.max(doc.stateVector[item.id.client] ?? 0, item.id.clock);
+
+  const key = idKey(item.id);
+  if (doc.pendingDeletes.has(key)) {
+    item.deleted = true;
+    doc.pendingDeletes.delete(key);
+  }
+  return position;
+};
+
+/**
+ * Finds the item holding the visible character at a text offset
+ */
+const visibleItemAt = (doc: CRDTDocument, index: number): Item | null => {
+  let visible = 0;
+  for (const item of doc.items) {
+    if (item.deleted) continue;
+    if (visible === index) return item;
+    visible++;
+  }
+  return null;
+};
+
+/**
+ * Inserts text typed locally at a text offset
+ */
+export const insertText = (doc: CRDTDocument, index: number, text: string): void => {
+  let origin = index > 0 ? visibleItemAt(doc, index - 1)?.id ?? null : null;
+  let position = -1;
+
+  // Items hold UTF-16 code units so offsets line up with string indexes
+  for (const char of text.split('')) {
+    const item: Item = {
+      id: { client: doc.clientId, clock: doc.clock + 1 },
+      origin,
+      content: char,
+      deleted: false
+    };
+    position = integrateItem(doc, item, position);
+    origin = item.id;
+  }
+};
+
+/**
+ * Deletes `length` visible characters starting at a text offset
+ */
+export const deleteText = (doc: CRDTDocument, index: number, length: number): void => {
+  let visible = 0;
+  let remaining = length;
+  for (const item of doc.items) {
+    if (remaining === 0) break;
+    if (item.deleted) continue;
+    if (visible >= index) {
+      item.deleted = true;
+      remaining--;
+    }
+    visible++;
+  }
+};
+
+/**
+ * Applies a local text operation to the document
+ */
+export const applyTextOperation = (doc: CRDTDocument, op: TextOperation): void => {
+  let index = 0;
+  for (const c of op) {
+    if (typeof c === 'string') {
+      insertText(doc, index, c);
+      index += c.length;
+    } else if (c > 0) {
+      index += c;
+    } else {
+      deleteText(doc, index, -c);
+    }
+  }
+};
+
+/**
+ * Encodes everything a replica with the given state vector is missing
+ * Pass an empty state vector to encode the whole document.
+ */
+export const encodeUpdate = (doc: CRDTDocument, stateVector: StateVector = {}): CRDTUpdate => {
+  const runs: EncodedRun[] = [];
+  let current: EncodedRun | null = null;
+  let previous: Item | null = null;
+
+  for (const item of doc.items) {
+    if (item.id.clock <= (stateVector[item.id.client] ?? 0)) {
+      current = null;
+      previous = item;
+      continue;
+    }
+
+    const continuesRun = current !== null &&
+      previous !== null &&
+      item.id.client === current.client &&
+      item.id.clock === previous.id.clock + 1 &&
+      item.origin !== null &&
+      compareIds(item.origin, previous.id) === 0;
+
+    if (continuesRun) {
+      current.content += item.content;
+    } else {
+      current = {
+        client: item.id.client,
+        clock: item.id.clock,
+        origin: item.origin ? [item.origin.client, item.origin.clock] : null,
+        content: item.content
+      };
+      runs.push(current);
+    }
+    previous = item;
+  }
+
+  // Origins always have lower clocks, so this lets receivers integrate in order
+  runs.sort((a, b) => a.clock - b.clock);
+
+  const deletedClocks: Record<string, number[]> = {};
+  for (const item of doc.items) {
+    if (item.deleted) {
+      (deletedClocks[item.id.client] ??= []).push(item.id.clock);
+    }
+  }
+  const deletes: Record<string, [number, number][]> = {};
+  for (const [client, clocks] of Object.entries(deletedClocks)) {
+    clocks.sort((a, b) => a - b);
+    const ranges: [number, number][] = [];
+    for (const clock of clocks) {
+      const last = ranges[ranges.length - 1];
+      if (last && last[0] + last[1] === clock) {
+        last[1]++;
+      } else {
+        ranges.push([clock, 1]);
+      }
+    }
+    deletes[client] = ranges;
+  }
+
+  return { runs, deletes };
+};
+
+/**
+ * Merges an update from another replica into the document
+ * @returns The change to the document's text as an operation
+ */
+export const applyUpdate = (doc: CRDTDocument, update: CRDTUpdate): TextOperation => {
+  const before = getText(doc);
+
+  // Runs arrive sorted by clock and each character's origin is the one
+  // before it, so integrating in this order rarely has to wait
+  const incoming: Item[] = [...doc.pendingItems];
+  for (const run of update.runs) {
+    let origin: ItemId | null = run.origin ? { client: run.origin[0], clock: run.origin[1] } : null;
+    let clock = run.clock;
+    for (const char of run.content.split('')) {
+      const id = { client: run.client, clock };
+      incoming.push({ id, origin, content: char, deleted: false });
+      origin = id;
+      clock++;
+    }
+  }
+
+  // Integrate items whose origin is known, keeping the rest for later
+  let progress = true;
+  let waiting = incoming;
+  while (progress && waiting.length > 0) {
+    progress = false;
+    const stillWaiting: Item[] = [];
+    let position = -1;
+    for (const item of waiting) {
+      if (doc.itemsById.has(idKey(item.id))) continue;
+      if (item.origin && !doc.itemsById.has(idKey(item.origin))) {
+        stillWaiting.push(item);
+        continue;
+      }
+      position = integrateItem(doc, item, position);
+      progress = true;
+    }
+    waiting = stillWaiting;
+  }
+  doc.pendingItems = waiting;
+
+  // Only ids this replica has or is waiting for can be deleted; anything
+  // past those is cut off, so a huge range costs no more than the document
+  const knownClocks: StateVector = { ...doc.stateVector };
+  for (const item of doc.pendingItems) {
+    knownClocks[item.id.client] = Math.max(knownClocks[item.id.client] ?? 0, item.id.clock);
+  }
+  for (const [client, ranges] of Object.entries(update.deletes)) {
+    const known = knownClocks[client] ?? 0;
+    // Sorted so overlapping ranges don't visit the same ids twice
+    let next = 1;
+    for (const [start, length] of [...ranges].sort((a, b) => a[0] - b[0])) {
+      const end = Math.min(start + length - 1, known);
+      for (let clock = Math.max(start, next); clock <= end; clock++) {
+        const key = idKey({ client, clock });
+        const item = doc.itemsById.get(key);
+        if (item) {
+          item.deleted = true;
+        } else {
+          doc.pendingDeletes.add(key);
+        }
+      }
+      next = Math.max(next, end + 1);
+    }
+  }
+
+  return diffToOperation(before, getText(doc));
+};
+
+/**
+ * Clients that typed characters in an update which the document doesn't
+ * have yet
+ */
+export const getNewItemClients = (doc: CRDTDocument, update: CRDTUpdate): string[] => {
+  const clients = new Set<string>();
+  for (const run of update.runs) {
+    for (let offset = 0; offset < run.content.length; offset++) {
+      if (!doc.itemsById.has(idKey({ client: run.client, clock: run.clock + offset }))) {
+        clients.add(run.client);
+        break;
+      }
+    }
+  }
+  return [...clients];
+};
+
+/**
+ * Splits an update into one per client that typed its characters, in the
+ * order their first characters were typed
+ * Each part carries the whole delete set, like any update; an update that
+ * only deletes is attributed to `fallbackClient`.
+ */
+export const splitUpdateByClient = (
+  update: CRDTUpdate,
+  fallbackClient: string
+): { client: string; update: CRDTUpdate }[] => {
+  if (update.runs.length === 0) return [{ client: fallbackClient, update }];
+  const runsByClient = new Map<string, EncodedRun[]>();
+  for (const run of update.runs) {
+    const runs = runsByClient.get(run.client) ?? [];
+    runs.push(run);
+    runsByClient.set(run.client, runs);
+  }
+  return [...runsByClient].map(([client, runs]) => ({
+    client,
+    update: { runs, deletes: update.deletes }
+  }));
+};
+
+/**
+ * What a local edit did, by item id: the characters it typed and the ones
+ * it deleted, so it can be undone later without touching anyone else's
+ */
+export interface EditRecord {
+  inserted: ItemId[];
+  deleted: ItemId[];
+}
+
+/**
+ * Runs a local edit on the document and records what it did
+ */
+export const recordEdit = (doc: CRDTDocument, edit: () => void): EditRecord => {
+  const visibleBefore = new Set(doc.items.filter(item => !item.deleted));
+  const clockBefore = doc.clock;
+  edit();
+
+  const record: EditRecord = { inserted: [], deleted: [] };
+  for (const item of doc.items) {
+    if (item.id.client === doc.clientId && item.id.clock > clockBefore) {
+      if (!item.deleted) record.inserted.push(item.id);
+    } else if (item.deleted && visibleBefore.has(item)) {
+      record.deleted.push(item.id);
+    }
+  }
+  return record;
+};
+
+/**
+ * Text of the given items, in document order, whether deleted or not
+ */
+export const getItemsText = (doc: CRDTDocument, ids: ItemId[]): string => {
+  const wanted = new Set(ids.map(idKey));
+  return doc.items
+    .filter(item => wanted.has(idKey(item.id)))
+    .map(item => item.content)
+    .join('');
+};
+
+/**
+ * Reverts a recorded edit: deletes the characters it typed that are still
+ * there and types the ones it deleted again where they used to be.
+ * Deletions can't be taken back, so restored text is new items placed
+ * right after the deleted ones. Whatever others changed meanwhile stays.
+ * @returns The record of the revert itself; reverting that redoes the edit
+ */
+export const revertEdit = (doc: CRDTDocument, record: EditRecord): EditRecord => {
+  const reverted: EditRecord = { inserted: [], deleted: [] };
+
+  for (const id of record.inserted) {
+    const item = doc.itemsById.get(idKey(id));
+    if (item && !item.deleted) {
+      item.deleted = true;
+      reverted.deleted.push(id);
+    }
+  }
+
+  // In document order, so each copy lands after the copy before it
+  const toRestore = new Set(record.deleted.map(idKey));
+  const tombstones = doc.items.filter(item => item.deleted && toRestore.has(idKey(item.id)));
+  for (const tombstone of tombstones) {
+    const copy: Item = {
+      id: { client: doc.clientId, clock: doc.clock + 1 },
+      origin: tombstone.id,
+      content: tombstone.content,
+      deleted: false
+    };
+    integrateItem(doc, copy);
+    reverted.inserted.push(copy.id);
+  }
+
+  return reverted;
+};
+
+/**
+ * Position that sticks to the text around it as the document changes
+ * Stored as the id of the character just before the offset (null for the
+ * start of the document), so it moves with that character under any
+ * concurrent edit.
+ */
+export type RelativePosition = [string, number] | null;
+
+/**
+ * Captures a text offset as a relative position
+ */
+export const getRelativePosition = (doc: CRDTDocument, index: number): RelativePosition => {
+  if (index <= 0) return null;
+  const item = visibleItemAt(doc, index - 1);
+  return item ? [item.id.client, item.id.clock] : null;
+};
+
+/**
+ * Finds the current text offset of a relative position
+ * @returns The offset, or null if this replica hasn't seen the character yet
+ */
+export const resolveRelativePosition = (doc: CRDTDocument, position: RelativePosition): number | null => {
+  if (position === null) return 0;
+  const [client, clock] = position;
+
+  let visible = 0;
+  for (const item of doc.items) {
+    if (item.id.client === client && item.id.clock === clock) {
+      // A deleted anchor collapses to where it used to be
+      return item.deleted ? visible : visible + 1;
+    }
+    if (!item.deleted) visible++;
+  }
+  return null;
+};
+
+/**
+ * Restores a replica from a full encoded update for the given client
+ */
+export const loadDocument = (clientId: string, update: CRDTUpdate): CRDTDocument => {
+  const doc = createDocument(clientId);
+  applyUpdate(doc, update);
+  return doc;
+};
+
+/**
+ * Convenience for turning a whole-text replacement into CRDT edits
+ */
+export const replaceText = (doc: CRDTDocument, newText: string): TextOperation => {
+  const op = diffToOperation(getText(doc), newText);
+  applyTextOperation(doc, op);
+  return op;
+};
@@ -1,8 +1,131 @@
-
 /**
  * Utility functions for cursor position handling in the text editor
  */
 
+/**
+ * A piece of the editor's text: a text node, or a <br> standing for "\n"
+ */
+interface TextSegment {
+  node: Node;
+  start: number;
+  length: number;
+  isBreak: boolean;
+}
+
+/**
+ * Flattens the editor's DOM into text segments with their offsets
+ * Offsets match the editor's innerText: line breaks count as one
+ * character, as do block elements the browser inserts on Enter.
+ */
+const collectSegments = (editorElement: HTMLElement): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let position = 0;
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const length = node.nodeValue?.length || 0;
+      segments.push({ node, start: position, length, isBreak: false });
+      position += length;
+      return;
+    }
+    if (node.nodeName === 'BR') {
+      segments.push({ node, start: position, length: 1, isBreak: true });
+      position += 1;
+      return;
+    }
+    // A block after other content starts a new line
+    const isBlock = node.nodeName === 'DIV' || node.nodeName === 'P';
+    if (isBlock && node !== editorElement && position > 0) {
+      const last = segments[segments.length - 1];
+      if (!last || !last.isBreak || last.start + last.length !== position) {
+        position += 1;
+      }
+    }
+    node.childNodes.forEach(visit);
+  };
+
+  visit(editorElement);
+  return segments;
+};
+
+/**
+ * Converts a DOM position inside the editor into a text offset
+ */
+const getTextOffset = (
+  segments: TextSegment[],
+  container: Node,
+  offset: number
+): number => {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const segment = segments.find(s => s.node === container);
+    if (segment) return segment.start + offset;
+  }
+
+  // For element containers the offset is a child index; the text offset is
+  // where the first segment at or after that point starts
+  const point = document.createRange();
+  point.setStart(container, offset);
+  for (const segment of segments) {
+    if (point.comparePoint(segment.node, 0) >= 0) {
+      return segment.start;
+    }
+  }
+  const last = segments[segments.length - 1];
+  return last ? last.start + last.length : 0;
+};
+
+/**
+ * Converts a text offset into a DOM position inside the editor
+ */
+const getDomPosition = (
+  editorElement: HTMLElement,
+  segments: TextSegment[],
+  textOffset: number
+): { node: Node; offset: number } => {
+  // Prefer text nodes so the caret lands inside text rather than beside a <br>
+  const textSegment = segments.find(s =>
+    !s.isBreak && textOffset >= s.start && textOffset <= s.start + s.length
+  );
+  if (textSegment) {
+    return { node: textSegment.node, offset: textOffset - textSegment.start };
+  }
+
+  for (const segment of segments) {
+    if (segment.isBreak && (textOffset === segment.start || textOffset === segment.start + 1)) {
+      const parent = segment.node.parentNode;
+      const index = Array.prototype.indexOf.call(parent.childNodes, segment.node);
+      return { node: parent, offset: textOffset === segment.start ? index : index + 1 };
+    }
+  }
+
+  return { node: editorElement, offset: textOffset > 0 ? editorElement.childNodes.length : 0 };
+};
+
+/**
+ * Builds a DOM range covering text offsets inside the editor
+ * @returns The range, or null if the offsets can't be mapped
+ */
+export const getRangeForOffsets = (
+  editorElement: HTMLElement | null,
+  start: number,
+  end: number
+): Range | null => {
+  if (!editorElement) return null;
+
+  try {
+    const segments = collectSegments(editorElement);
+    const startPosition = getDomPosition(editorElement, segments, start);
+    const endPosition = getDomPosition(editorElement, segments, end);
+    const range = document.createRange();
+    range.setStart(startPosition.node, startPosition.offset);
+    range.setEnd(endPosition.node, endPosition.offset);
+    return range;
+  } catch (e) {
+    console.warn("Could not map offsets to a range:", e);
+    return null;
+  }
+};
+
 /**
  * Calculates and saves the current cursor position within an element
  * @param editorElement The contentEditable div element
@@ -10,20 +133,16 @@
  */
 export const saveCursorPosition = (editorElement: HTMLDivElement | null): { start: number; end: number } | null => {
   if (!editorElement || document.activeElement !== editorElement) return null;
-  
+
   const selection = window.getSelection();
-  if (!selection) return null;
-  
+  if (!selection || selection.rangeCount === 0) return null;
+
   try {
     // Calculate cursor positions relative to the editor content
     const range = selection.getRangeAt(0);
-    const preSelectionRange = range.cloneRange();
-    preSelectionRange.selectNodeContents(editorElement);
-    preSelectionRange.setEnd(range.startContainer, range.startOffset);
-    const start = preSelectionRange.toString().length;
-    
-    const end = start + range.toString().length;
-    console.log("Saved cursor position:", { start, end });
+    const segments = collectSegments(editorElement);
+    const start = getTextOffset(segments, range.startContainer, range.startOffset);
+    const end = getTextOffset(segments, range.endContainer, range.endOffset);
     return { start, end };
   } catch (e) {
     console.warn("Failed to save cursor position:", e);
@@ -38,68 +157,28 @@ export const saveCursorPosition = (editorElement: HTMLDivElement | null): { star
  * @returns boolean indicating success
  */
 export const restoreCursorPosition = (
-  editorElement: HTMLDivElement | null, 
+  editorElement: HTMLDivElement | null,
   position: { start: number; end: number } | null
 ): boolean => {
   if (!position || !editorElement) return false;
-  
+
   // Only restore if editor has focus
   if (document.activeElement !== editorElement) return false;
-  
+
   console.log("Attempting to restore cursor position:", position);
-  
+
   try {
     const selection = window.getSelection();
     if (!selection) return false;
-    
-    // Find the position to place the cursor
-    const { start, end } = position;
-    
-    // Create a walker to find the correct text node and offset
-    let currentPos = 0;
-    let startNode = null, startOffset = 0, endNode = null, endOffset = 0;
-    
-    const walker = document.createTreeWalker(
-      editorElement,
-      NodeFilter.SHOW_TEXT,
-      null
-    );
-    
-    // Find start position
-    let node;
-    while ((node = walker.nextNode())) {
-      const nodeLength = node.nodeValue?.length || 0;
-      if (currentPos + nodeLength >= start) {
-        startNode = node;
-        startOffset = start - currentPos;
-        break;
-      }
-      currentPos += nodeLength;
-    }
-    
-    // Find end position
-    currentPos = 0;
-    walker.currentNode = editorElement;
-    while ((node = walker.nextNode())) {
-      const nodeLength = node.nodeValue?.length || 0;
-      if (currentPos + nodeLength >= end) {
-        endNode = node;
-        endOffset = end - currentPos;
-        break;
-      }
-      currentPos += nodeLength;
-    }
-    
+
     // Set selection to saved position
-    if (startNode && endNode) {
-      const range = document.createRange();
-      range.setStart(startNode, startOffset);
-      range.setEnd(endNode, endOffset);
+    const range = getRangeForOffsets(editorElement, position.start, position.end);
+    if (range) {
       selection.removeAllRanges();
       selection.addRange(range);
       return true;
     }
-    
+
     return false;
   } catch (e) {
     console.warn("Could not restore cursor position:", e);
@@ -118,13 +197,13 @@ export const updateContentPreservingCursor = (
   newContent: string
 ): void => {
   if (!editorElement) return;
-  
+
   // Save cursor position before updating content
   const cursorPosition = saveCursorPosition(editorElement);
-  
+
   // Update content
   editorElement.innerText = newContent;
-  
+
   // Restore cursor position after a small delay to allow DOM updates
   setTimeout(() => {
     restoreCursorPosition(editorElement, cursorPosition);
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { diffTexts, diffWords, mergeText, applyResolutions } from '@/utils/diff';
+
+const base = ['one', 'two', 'three', 'four'].join('\n');
+
+describe('mergeText', () => {
+  it('takes changes to different lines from both sides', () => {
+    const local = ['one', 'TWO', 'three', 'four'].join('\n');
+    const remote = ['one', 'two', 'three', 'four', 'five'].join('\n');
+    const result = mergeText(base, local, remote);
+    expect(result.hasConflicts).toBe(false);
+    expect(applyResolutions(result.chunks, [])).toBe('one\nTWO\nthree\nfour\nfive');
+  });
+
+  it('takes a change made on one side only as is', () => {
+    const remote = ['one', 'three', 'four'].join('\n');
+    const result = mergeText(base, base, remote);
+    expect(result.chunks).toEqual([{ type: 'stable', lines: ['one', 'three', 'four'] }]);
+  });
+
+  it('takes an identical change on both sides once', () => {
+    const changed = ['one', 'two!', 'three', 'four'].join('\n');
+    const result = mergeText(base, changed, changed);
+    expect(result.hasConflicts).toBe(false);
+    expect(applyResolutions(result.chunks, [])).toBe(changed);
+  });
+
+  it('reports different changes to the same lines as a conflict', () => {
+    const local = ['one', 'local', 'three', 'four'].join('\n');
+    const remote = ['one', 'remote', 'three', 'four'].join('\n');
+    const result = mergeText(base, local, remote);
+    expect(result.hasConflicts).toBe(true);
+    expect(result.chunks).toEqual([
+      { type: 'stable', lines: ['one'] },
+      { type: 'conflict', base: ['two'], local: ['local'], remote: ['remote'] },
+      { type: 'stable', lines: ['three', 'four'] }
+    ]);
+  });
+
+  it('settles each conflict the way it is told to', () => {
+    const local = ['ONE', 'two', 'three', 'FOUR'].join('\n');
+    const remote = ['1', 'two', 'three', '4'].join('\n');
+    const { chunks } = mergeText(base, local, remote);
+    expect(applyResolutions(chunks, ['remote', 'both'])).toBe('1\ntwo\nthree\nFOUR\n4');
+    // Conflicts without a resolution keep the local side
+    expect(applyResolutions(chunks, [])).toBe('ONE\ntwo\nthree\nFOUR');
+  });
+});
+
+describe('diffTexts', () => {
+  it('numbers equal lines on both sides', () => {
+    expect(diffTexts('a\nb', 'a\nb')).toEqual([
+      { type: 'equal', left: { number: 1, text: 'a' }, right: { number: 1, text: 'a' } },
+      { type: 'equal', left: { number: 2, text: 'b' }, right: { number: 2, text: 'b' } }
+    ]);
+  });
+
+  it('shows inserted lines on the new side only', () => {
+    const rows = diffTexts('one\nthree', 'one\ntwo\nthree');
+    expect(rows.map(row => row.type)).toEqual(['equal', 'insert', 'equal']);
+    expect(rows[1]).toEqual({ type: 'insert', right: { number: 2, text: 'two' } });
+    expect(rows[2].left?.number).toBe(2);
+    expect(rows[2].right?.number).toBe(3);
+  });
+
+  it('shows deleted lines on the old side only', () => {
+    const rows = diffTexts('one\ntwo\nthree', 'one\nthree');
+    expect(rows.map(row => row.type)).toEqual(['equal', 'delete', 'equal']);
+    expect(rows[1]).toEqual({ type: 'delete', left: { number: 2, text: 'two' } });
+    expect(rows[2].left?.number).toBe(3);
+    expect(rows[2].right?.number).toBe(2);
+  });
+
+  it('shows a trailing newline as an empty last line', () => {
+    expect(diffTexts('a\nb', 'a\nb\n').slice(2)).toEqual([
+      { type: 'insert', right: { number: 3, text: '' } }
+    ]);
+    expect(diffTexts('a\nb\n', 'a\nb').slice(2)).toEqual([
+      { type: 'delete', left: { number: 3, text: '' } }
+    ]);
+  });
+
+  it('pairs replaced lines and highlights the words that changed', () => {
+    const rows = diffTexts('the quick fox\nend', 'the slow fox\nend');
+    expect(rows[0]).toEqual({
+      type: 'change',
+      left: {
+        number: 1,
+        text: 'the quick fox',
+        segments: [{ text: 'the ', changed: false }, { text: 'quick', changed: true }, { text: ' fox', changed: false }]
+      },
+      right: {
+        number: 1,
+        text: 'the slow fox',
+        segments: [{ text: 'the ', changed: false }, { text: 'slow', changed: true }, { text: ' fox', changed: false }]
+      }
+    });
+    expect(rows[1].type).toBe('equal');
+  });
+
+  it('leaves replaced lines without a counterpart unpaired', () => {
+    const rows = diffTexts('a\nold 1\nold 2', 'a\nnew 1');
+    expect(rows.map(row => row.type)).toEqual(['equal', 'change', 'delete']);
+    expect(rows[2].left).toEqual({ number: 3, text: 'old 2' });
+  });
+});
+
+describe('diffWords', () => {
+  it('marks words only on the side that has them', () => {
+    expect(diffWords('keep this', 'keep all of this')).toEqual({
+      left: [{ text: 'keep this', changed: false }],
+      right: [{ text: 'keep ', changed: false }, { text: 'all of ', changed: true }, { text: 'this', changed: false }]
+    });
+  });
+
+  it('marks whitespace changes', () => {
+    const { left, right } = diffWords('a b', 'a  b');
+    expect(left).toEqual([{ text: 'a', changed: false }, { text: ' ', changed: true }, { text: 'b', changed: false }]);
+    expect(right).toEqual([{ text: 'a', changed: false }, { text: '  ', changed: true }, { text: 'b', changed: false }]);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Diffing and three-way merging of plain text
+ *
+ * Line and word diffs drive the diff viewer. The three-way merge reconciles
+ * local edits with changes someone else saved to the same base version:
+ * changes to different lines merge on their own, and changes to the same
+ * lines come back as conflicts for the user to resolve.
+ */
+
+/**
+ * Splits text into lines; joining them with "\n" gives the text back
+ */
+export const splitLines = (text: string): string[] => text.split('\n');
+
+/**
+ * Splits text into words and the whitespace between them
+ */
+export const splitWords = (text: string): string[] => text.split(/(\s+)/).filter(token => token !== '');
+
+/**
+ * Finds the longest common subsequence of two lists of lines or words
+ * (Myers' algorithm)
+ * @returns Pairs of matching indexes [indexInA, indexInB], in order
+ */
+export const matchSequences = (a: string[], b: string[]): [number, number][] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    // Only diagonals -d-1..d+1 are read when walking back from step d
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards collecting the diagonal (matching) moves
+  const matches: [number, number][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const previous = trace[d];
+    const at = (diagonal: number) => previous[diagonal + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1))
+      ? k + 1
+      : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    if (d > 0) {
+      x = prevX;
+      y = prevY;
+    }
+  }
+
+  return matches.reverse();
+};
+
+/**
+ * A run of tokens that are the same in both versions, or only in one
+ */
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  tokens: string[];
+}
+
+/**
+ * Two-way diff of token lists, as runs of equal, deleted and inserted tokens
+ */
+export const diffSequences = (a: string[], b: string[]): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], tokens: string[]) => {
+    if (tokens.length === 0) return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.tokens.push(...tokens);
+    } else {
+      parts.push({ type, tokens: [...tokens] });
+    }
+  };
+
+  let i = 0, j = 0;
+  for (const [matchA, matchB] of [...matchSequences(a, b), [a.length, b.length]]) {
+    push('delete', a.slice(i, matchA));
+    push('insert', b.slice(j, matchB));
+    if (matchA < a.length) push('equal', [a[matchA]]);
+    i = matchA + 1;
+    j = matchB + 1;
+  }
+  return parts;
+};
+
+/**
+ * A piece of a line in the diff viewer; changed pieces are highlighted
+ */
+export interface WordSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface DiffLine {
+  number: number;
+  text: string;
+  // Word-level detail, only for lines paired with a changed counterpart
+  segments?: WordSegment[];
+}
+
+/**
+ * One row of a side-by-side diff
+ * - equal: the line is in both versions
+ * - delete / insert: the line is only in the old / new version
+ * - change: an old line replaced by a new one, with word-level detail
+ */
+export interface DiffRow {
+  type: 'equal' | 'delete' | 'insert' | 'change';
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Word-level diff of two lines, as segments for each side
+ */
+export const diffWords = (oldLine: string, newLine: string): { left: WordSegment[]; right: WordSegment[] } => {
+  const left: WordSegment[] = [];
+  const right: WordSegment[] = [];
+  const push = (segments: WordSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) {
+      last.text += text;
+    } else {
+      segments.push({ text, changed });
+    }
+  };
+
+  for (const part of diffSequences(splitWords(oldLine), splitWords(newLine))) {
+    const text = part.tokens.join('');
+    if (part.type !== 'insert') push(left, text, part.type === 'delete');
+    if (part.type !== 'delete') push(right, text, part.type === 'insert');
+  }
+  return { left, right };
+};
+
+/**
+ * Line-level diff of two texts laid out as rows for the diff viewer
+ * Deleted and inserted lines next to each other are paired up as changed
+ * lines, which get word-level highlighting.
+ */
+export const diffTexts = (oldText: string, newText: string): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  let pendingDeletes: string[] = [];
+
+  const flushDeletes = (inserted: string[]) => {
+    const paired = Math.min(pendingDeletes.length, inserted.length);
+    for (let k = 0; k < Math.max(pendingDeletes.length, inserted.length); k++) {
+      if (k < paired) {
+        const { left, right } = diffWords(pendingDeletes[k], inserted[k]);
+        rows.push({
+          type: 'change',
+          left: { number: oldNumber++, text: pendingDeletes[k], segments: left },
+          right: { number: newNumber++, text: inserted[k], segments: right }
+        });
+      } else if (k < pendingDeletes.length) {
+        rows.push({ type: 'delete', left: { number: oldNumber++, text: pendingDeletes[k] } });
+      } else {
+        rows.push({ type: 'insert', right: { number: newNumber++, text: inserted[k] } });
+      }
+    }
+    pendingDeletes = [];
+  };
+
+  for (const part of diffSequences(splitLines(oldText), splitLines(newText))) {
+    if (part.type === 'delete') {
+      pendingDeletes.push(...part.tokens);
+    } else if (part.type === 'insert') {
+      flushDeletes(part.tokens);
+    } else {
+      flushDeletes([]);
+      for (const line of part.tokens) {
+        rows.push({
+          type: 'equal',
+          left: { number: oldNumber++, text: line },
+          right: { number: newNumber++, text: line }
+        });
+      }
+    }
+  }
+  flushDeletes([]);
+
+  return rows;
+};
+
+/**
+ * A section of a three-way merge
+ * - stable: lines both sides agree on
+ * - conflict: lines both sides changed differently, with what each side has
+ */
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  hasConflicts: boolean;
+}
+
+const sameLines = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Merges two edited versions of the same base text line by line (diff3)
+ * A change made on only one side is taken as is, and identical changes on
+ * both sides are taken once; everything else is a conflict.
+ */
+export const mergeText = (base: string, local: string, remote: string): MergeResult => {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+
+  // For each base line, where it is in the other versions (-1 if changed)
+  const toLocal = new Array<number>(baseLines.length).fill(-1);
+  const toRemote = new Array<number>(baseLines.length).fill(-1);
+  matchSequences(baseLines, localLines).forEach(([o, a]) => { toLocal[o] = a; });
+  matchSequences(baseLines, remoteLines).forEach(([o, b]) => { toRemote[o] = b; });
+
+  const chunks: MergeChunk[] = [];
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === 'stable') {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: 'stable', lines: [...lines] });
+    }
+  };
+
+  let o = 0, a = 0, b = 0;
+  let hasConflicts = false;
+  while (o < baseLines.length || a < localLines.length || b < remoteLines.length) {
+    // Lines unchanged on both sides
+    if (o < baseLines.length && toLocal[o] === a && toRemote[o] === b) {
+      pushStable([baseLines[o]]);
+      o++; a++; b++;
+      continue;
+    }
+
+    // Changed region: up to the next base line both sides still have
+    let next = o;
+    while (next < baseLines.length && (toLocal[next] === -1 || toRemote[next] === -1)) {
+      next++;
+    }
+    const nextLocal = next < baseLines.length ? toLocal[next] : localLines.length;
+    const nextRemote = next < baseLines.length ? toRemote[next] : remoteLines.length;
+
+    const baseChunk = baseLines.slice(o, next);
+    const localChunk = localLines.slice(a, nextLocal);
+    const remoteChunk = remoteLines.slice(b, nextRemote);
+
+    if (sameLines(localChunk, baseChunk)) {
+      pushStable(remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+      pushStable(localChunk);
+    } else {
+      chunks.push({ type: 'conflict', base: baseChunk, local: localChunk, remote: remoteChunk });
+      hasConflicts = true;
+    }
+
+    o = next;
+    a = nextLocal;
+    b = nextRemote;
+  }
+
+  return { chunks, hasConflicts };
+};
+
+/**
+ * How to settle one conflict: keep one side, or local followed by remote
+ */
+export type ConflictResolution = 'local' | 'remote' | 'both';
+
+/**
+ * Turns merge chunks back into text
+ * @param resolutions One entry per conflict chunk, in order
+ */
+export const applyResolutions = (chunks: MergeChunk[], resolutions: ConflictResolution[]): string => {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const chunk of chunks) {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+    const resolution = resolutions[conflictIndex++] ?? 'local';
+    if (resolution !== 'remote') lines.push(...chunk.local);
+    if (resolution !== 'local') lines.push(...chunk.remote);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,59 @@
+import { v4 as uuidv4 } from 'uuid';
+import { toPlainText } from '@/utils/richText';
+
+/**
+ * Helpers for keeping track of documents on this device
+ */
+
+const RECENT_DOCUMENTS_KEY = 'recent_documents';
+const MAX_RECENT_DOCUMENTS = 20;
+
+export interface RecentDocument {
+  id: string;
+  title: string;
+  lastOpened: string;
+}
+
+/**
+ * Generates a short, URL-friendly ID for a new document
+ */
+export const generateDocumentId = (): string => uuidv4().replace(/-/g, '').slice(0, 12);
+
+/**
+ * Derives a display title from document content (its first non-empty line)
+ */
+export const getDocumentTitle = (content: string): string => {
+  const firstLine = toPlainText(content).split('\n').find(line => line.trim() !== '')?.trim() ?? '';
+  return firstLine.slice(0, 80);
+};
+
+/**
+ * Documents opened on this device, most recent first
+ */
+export const getRecentDocuments = (): RecentDocument[] => {
+  try {
+    const saved = localStorage.getItem(RECENT_DOCUMENTS_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Failed to read recent documents:", e);
+    return [];
+  }
+};
+
+/**
+ * Records that a document was opened, keeping its latest known title
+ */
+export const recordRecentDocument = (id: string, title: string): void => {
+  const others = getRecentDocuments().filter(doc => doc.id !== id);
+  const updated = [{ id, title, lastOpened: new Date().toISOString() }, ...others]
+    .slice(0, MAX_RECENT_DOCUMENTS);
+  localStorage.setItem(RECENT_DOCUMENTS_KEY, JSON.stringify(updated));
+};
+
+/**
+ * Forgets which documents were opened on this device, e.g. when signing out
+ */
+export const clearRecentDocuments = (): void => {
+  localStorage.removeItem(RECENT_DOCUMENTS_KEY);
+};
@@ -0,0 +1,281 @@
+import { renderMarkdown } from '@/utils/markdown';
+import { RichDocument, getMarkdown, getPlainText, richDocumentFromPlainText } from '@/utils/richText';
+import { escapeHtml, parseRichHtml, renderRichHtml } from '@/utils/richTextDom';
+
+/**
+ * Saving documents as files on this device
+ *
+ * Everything is generated in the browser from the editor's copy, so unsaved
+ * changes are included. Each format starts with the document's title and
+ * when it was last saved.
+ */
+
+export type ExportFormat = 'txt' | 'md' | 'html' | 'pdf' | 'docx';
+
+// The formats saved as files, as offered in menus; PDF goes through printing
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string }[] = [
+  { format: 'txt', label: 'Plain text', extension: '.txt' },
+  { format: 'md', label: 'Markdown', extension: '.md' },
+  { format: 'html', label: 'Web page', extension: '.html' },
+  { format: 'docx', label: 'Word document', extension: '.docx' }
+];
+
+export interface ExportSource {
+  title: string;
+  savedAt: Date | null;
+  // Stored content; rich documents are exported from richDocument instead
+  content: string;
+  richDocument: RichDocument | null;
+  // Plain documents shown with a Markdown preview export as rendered Markdown
+  markdown: boolean;
+}
+
+// Leaves out characters that aren't allowed in file names on some systems
+const getFileBaseName = (title: string): string => {
+  const name = title
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 80);
+  return name || 'Untitled';
+};
+
+/**
+ * A file name for an exported document, from its title
+ */
+export const getExportFileName = (title: string, extension: string): string =>
+  `${getFileBaseName(title)}.${extension}`;
+
+/**
+ * Hands a file to the browser to download
+ */
+export const downloadFile = (fileName: string, data: Blob): void => {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after the click returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const getTitle = (source: ExportSource): string => source.title || 'Untitled';
+
+const getSavedLabel = (source: ExportSource): string =>
+  source.savedAt ? `Last saved ${source.savedAt.toLocaleString()}` : 'Not saved yet';
+
+/**
+ * The document as plain text, under a two-line heading
+ */
+export const buildTextExport = (source: ExportSource): string => {
+  const text = source.richDocument ? getPlainText(source.richDocument) : source.content;
+  return `${getTitle(source)}\n${getSavedLabel(source)}\n\n${text}`;
+};
+
+/**
+ * The document as Markdown, with the title and save time as front matter
+ * Plain documents are taken to be Markdown already.
+ */
+export const buildMarkdownExport = (source: ExportSource): string => {
+  const text = source.richDocument ? getMarkdown(source.richDocument) : source.content;
+  const frontMatter = [
+    '---',
+    `title: ${JSON.stringify(getTitle(source))}`,
+    `saved: ${source.savedAt ? source.savedAt.toISOString() : 'never'}`,
+    '---'
+  ];
+  return `${frontMatter.join('\n')}\n\n${text}`;
+};
+
+const getBodyHtml = (source: ExportSource): string => {
+  if (source.richDocument) return renderRichHtml(source.richDocument);
+  if (source.markdown) return renderMarkdown(source.content);
+  return `<div class="plain-text">${escapeHtml(source.content)}</div>`;
+};
+
+// Kept small and self-contained so the page looks right opened from disk,
+// and doubles as the print stylesheet for PDFs
+const EXPORT_STYLES = `
+  body { max-width: 46rem; margin: 2.5rem auto; padding: 0 1.5rem; color: #111; font: 16px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  header { margin-bottom: 2rem; padding-bottom: 0.75rem; border-bottom: 1px solid #ddd; }
+  header h1 { margin: 0; font-size: 1.1rem; }
+  header p { margin: 0.25rem 0 0; color: #666; font-size: 0.85rem; }
+  .plain-text { white-space: pre-wrap; overflow-wrap: break-word; }
+  pre, code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.9em; }
+  pre { padding: 0.75rem 1rem; background: #f5f5f5; border-radius: 4px; overflow-x: auto; }
+  :not(pre) > code { padding: 0.1em 0.3em; background: #f5f5f5; border-radius: 3px; }
+  blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid #ddd; color: #555; }
+  table { border-collapse: collapse; }
+  th, td { padding: 0.25rem 0.75rem; border: 1px solid #ddd; }
+  img { max-width: 100%; }
+  @media print {
+    @page { margin: 2cm; }
+    body { max-width: none; margin: 0; padding: 0; font-size: 11pt; }
+    a { color: inherit; }
+    pre, blockquote, table, img { break-inside: avoid; }
+    h1, h2, h3, h4 { break-after: avoid; }
+  }
+`;
+
+/**
+ * The document as a standalone web page
+ */
+export const buildHtmlExport = (source: ExportSource): string => {
+  const title = escapeHtml(getTitle(source));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<p>${escapeHtml(getSavedLabel(source))}</p>
+</header>
+<main>
+${getBodyHtml(source)}
+</main>
+</body>
+</html>
+`;
+};
+
+/**
+ * The document as a Word file
+ * The docx library is only loaded when it's first needed, since it's large.
+ * Markdown is converted through its rendered HTML, so it keeps the same
+ * formatting rich documents can have.
+ */
+export const buildDocxExport = async (source: ExportSource): Promise<Blob> => {
+  const {
+    Document,
+    ExternalHyperlink,
+    HeadingLevel,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    TextRun
+  } = await import('docx');
+
+  let doc = source.richDocument;
+  if (!doc) {
+    doc = source.markdown ? parseRichHtml(renderMarkdown(source.content)) : richDocumentFromPlainText(source.content);
+  }
+
+  const headings = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+  const paragraphs = [
+    new Paragraph({ text: getTitle(source), heading: HeadingLevel.TITLE }),
+    new Paragraph({ children: [new TextRun({ text: getSavedLabel(source), italics: true, color: '666666' })] })
+  ];
+  // Each numbered list counts from one
+  let listInstance = 0;
+  let previousType: string | null = null;
+
+  for (const block of doc.blocks) {
+    const children = block.content.map(span => {
+      const run = new TextRun({
+        text: span.text,
+        bold: span.marks?.includes('bold'),
+        italics: span.marks?.includes('italic'),
+        font: span.marks?.includes('code') ? 'Courier New' : undefined,
+        style: span.link ? 'Hyperlink' : undefined
+      });
+      return span.link ? new ExternalHyperlink({ link: span.link, children: [run] }) : run;
+    });
+
+    if (block.type === 'ordered_item' && previousType !== 'ordered_item') listInstance++;
+    previousType = block.type;
+
+    if (block.type === 'heading') {
+      paragraphs.push(new Paragraph({ children, heading: headings[block.level ?? 1] }));
+    } else if (block.type === 'bullet_item') {
+      paragraphs.push(new Paragraph({ children, bullet: { level: 0 } }));
+    } else if (block.type === 'ordered_item') {
+      paragraphs.push(new Paragraph({ children, numbering: { reference: 'ordered', level: 0, instance: listInstance } }));
+    } else {
+      paragraphs.push(new Paragraph({ children }));
+    }
+  }
+
+  const file = new Document({
+    title: getTitle(source),
+    numbering: {
+      config: [{
+        reference: 'ordered',
+        levels: [{
+          level: 0,
+          format: LevelFormat.DECIMAL,
+          text: '%1.',
+          style: { paragraph: { indent: { left: 720, hanging: 360 } } }
+        }]
+      }]
+    },
+    sections: [{ children: paragraphs }]
+  });
+  return Packer.toBlob(file);
+};
+
+/**
+ * Opens the print dialog for the exported web page, from which it can be
+ * saved as a PDF; the page's title becomes the suggested file name
+ */
+export const printHtml = (html: string, fileName: string): void => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+
+  const pageTitle = document.title;
+  const cleanUp = () => {
+    document.title = pageTitle;
+    frame.remove();
+  };
+
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      cleanUp();
+      return;
+    }
+    // Some browsers name the PDF after the page rather than the frame
+    document.title = fileName;
+    frameWindow.addEventListener('afterprint', cleanUp);
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+/**
+ * Exports a document in the given format, downloading it or, for PDF,
+ * opening the print dialog
+ */
+export const exportDocument = async (source: ExportSource, format: ExportFormat): Promise<void> => {
+  const baseName = getFileBaseName(source.title);
+
+  switch (format) {
+    case 'txt':
+      downloadFile(`${baseName}.txt`, new Blob([buildTextExport(source)], { type: 'text/plain;charset=utf-8' }));
+      break;
+    case 'md':
+      downloadFile(`${baseName}.md`, new Blob([buildMarkdownExport(source)], { type: 'text/markdown;charset=utf-8' }));
+      break;
+    case 'html':
+      downloadFile(`${baseName}.html`, new Blob([buildHtmlExport(source)], { type: 'text/html;charset=utf-8' }));
+      break;
+    case 'pdf':
+      printHtml(buildHtmlExport(source), baseName);
+      break;
+    case 'docx':
+      downloadFile(`${baseName}.docx`, await buildDocxExport(source));
+      break;
+  }
+};
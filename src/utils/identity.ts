@@ -0,0 +1,36 @@
+/**
+ * How participants are shown to each other
+ * Names come from signing in (see auth.ts); colors are derived from the
+ * user id, so someone looks the same in every tab and to everyone.
+ */
+
+// Saturated enough to read as a caret and selection color on white
+const PARTICIPANT_COLORS = [
+  '#e11d48', '#d97706', '#16a34a', '#0891b2',
+  '#2563eb', '#7c3aed', '#c026d3', '#0d9488'
+];
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Picks a stable color for a user so they look the same to everyone
+ */
+export const getParticipantColor = (userId: string): string =>
+  PARTICIPANT_COLORS[hashString(userId) % PARTICIPANT_COLORS.length];
+
+/**
+ * Initials for avatar fallbacks ("Quiet Otter" -> "QO")
+ */
+export const getInitials = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
@@ -0,0 +1,208 @@
+import { renderMarkdown } from '@/utils/markdown';
+import {
+  getMarkdown,
+  getPlainText,
+  richDocumentFromPlainText,
+  serializeRichDocument
+} from '@/utils/richText';
+import { parseRichHtml } from '@/utils/richTextDom';
+
+/**
+ * Reading files into documents
+ *
+ * Files are read and converted in the browser. HTML and Word files go
+ * through the rich text model, so whatever it can't express (tables,
+ * images, colours) is dropped, and the rest is turned into whatever kind of
+ * document it's imported into.
+ */
+
+export type ImportFormat = 'txt' | 'md' | 'html' | 'docx';
+
+// How the imported text is used: as it is, as Markdown or as rich text
+export type ImportTarget = 'plain' | 'markdown' | 'rich';
+
+export interface ImportedFile {
+  name: string;
+  format: ImportFormat;
+  // Text for text and Markdown files, HTML for web pages and Word files
+  content: string;
+}
+
+// Word files carry images and styles, so they're allowed to be larger
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+// An import is sent as one update, which has to fit in a single message
+const MAX_IMPORTED_LENGTH = 500_000;
+
+export const IMPORT_ACCEPT = [
+  '.txt', '.text', '.md', '.markdown', '.html', '.htm', '.docx',
+  'text/plain', 'text/markdown', 'text/html',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+].join(',');
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  txt: 'txt',
+  text: 'txt',
+  md: 'md',
+  markdown: 'md',
+  html: 'html',
+  htm: 'html',
+  docx: 'docx'
+};
+
+/**
+ * The format of a file, from its extension, then its type, then its first
+ * bytes
+ */
+export const detectImportFormat = (file: File, bytes: Uint8Array): ImportFormat | null => {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  if (file.type === 'text/markdown') return 'md';
+  if (file.type === 'text/html') return 'html';
+  if (file.type.endsWith('wordprocessingml.document')) return 'docx';
+
+  // Word files are zip archives
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return extension === '' ? 'docx' : null;
+  }
+  if (file.type.startsWith('text/') || extension === '') {
+    const start = decodeText(bytes.subarray(0, 512)).trimStart().toLowerCase();
+    return start.startsWith('<!doctype html') || start.startsWith('<html') ? 'html' : 'txt';
+  }
+  return null;
+};
+
+// UTF-16 text without a byte order mark has a zero in every other byte
+// wherever it's ASCII
+const guessUtf16 = (bytes: Uint8Array): 'utf-16le' | 'utf-16be' | null => {
+  const sample = bytes.subarray(0, 1024);
+  if (sample.length < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  const pairs = Math.floor(sample.length / 2);
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+  return null;
+};
+
+/**
+ * Decodes a text file: as UTF-16 when it has that byte order mark or looks
+ * like it, otherwise as UTF-8, falling back to Windows-1252 for older files
+ * that aren't valid UTF-8
+ */
+export const decodeText = (bytes: Uint8Array): string => {
+  let encoding: string | null = null;
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    encoding = 'utf-16le';
+  } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    encoding = 'utf-16be';
+  } else {
+    encoding = guessUtf16(bytes);
+  }
+  if (encoding) return new TextDecoder(encoding).decode(bytes);
+
+  // Also drops a UTF-8 byte order mark
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    console.log("Import: Not valid UTF-8, reading as Windows-1252");
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+};
+
+// Word documents are converted to HTML; the converter is large, so it's
+// only loaded for the first one
+const convertDocx = async (data: ArrayBuffer): Promise<string> => {
+  const { default: mammoth } = await import('mammoth');
+  const result = await mammoth.convertToHtml(
+    { arrayBuffer: data },
+    // Images would only be dropped later, so don't inline them
+    { convertImage: mammoth.images.imgElement(async () => ({ src: '' })) }
+  );
+  return result.value;
+};
+
+/**
+ * Reads a file for importing
+ * @throws If the file is too large, or isn't a format that can be imported
+ */
+export const readImportFile = async (file: File): Promise<ImportedFile> => {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`${file.name} is too large to import`);
+  }
+
+  const data = await file.arrayBuffer();
+  const bytes = new Uint8Array(data);
+  const format = detectImportFormat(file, bytes);
+  if (!format) {
+    throw new Error(`${file.name} isn't a text, Markdown, HTML or Word file`);
+  }
+
+  let content: string;
+  if (format === 'docx') {
+    try {
+      content = await convertDocx(data);
+    } catch (err) {
+      console.error("Import: Failed to read Word file:", err);
+      throw new Error(`${file.name} couldn't be read as a Word document`);
+    }
+  } else {
+    // The editor only uses \n for line breaks
+    content = decodeText(bytes).replace(/\r\n?/g, '\n');
+  }
+
+  return { name: file.name, format, content };
+};
+
+/**
+ * What an imported file becomes in a new document: Word and HTML files
+ * keep their formatting as rich text, Markdown gets its preview
+ */
+export const getNaturalImportTarget = (format: ImportFormat): ImportTarget => {
+  if (format === 'docx' || format === 'html') return 'rich';
+  return format === 'md' ? 'markdown' : 'plain';
+};
+
+/**
+ * The document content for an imported file
+ * @throws If the result is too large to send
+ */
+export const getImportedContent = (imported: ImportedFile, target: ImportTarget): string => {
+  const isHtml = imported.format === 'html' || imported.format === 'docx';
+  let content: string;
+
+  if (target === 'rich') {
+    let html: string | null = isHtml ? imported.content : null;
+    if (imported.format === 'md') html = renderMarkdown(imported.content);
+    content = serializeRichDocument(html !== null ? parseRichHtml(html) : richDocumentFromPlainText(imported.content));
+  } else if (isHtml) {
+    const doc = parseRichHtml(imported.content);
+    content = target === 'markdown' ? getMarkdown(doc) : getPlainText(doc);
+  } else {
+    content = imported.content;
+  }
+
+  if (content.length > MAX_IMPORTED_LENGTH) {
+    throw new Error(`${imported.name} is too large to import`);
+  }
+  return content;
+};
+
+/**
+ * Asks the user for a file to import
+ * @returns The chosen file, or null if they cancelled
+ */
+export const chooseImportFile = (): Promise<File | null> =>
+  new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = IMPORT_ACCEPT;
+    input.addEventListener('change', () => resolve(input.files?.[0] ?? null));
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown } from '@/utils/markdown';
+
+describe('renderMarkdown', () => {
+  it('renders GitHub-flavoured Markdown', () => {
+    const html = renderMarkdown('# Title\n\n- [x] done\n\n~~gone~~');
+    expect(html).toContain('<h1>Title</h1>');
+    expect(html).toMatch(/<input[^>]*type="checkbox"/);
+    expect(html).toContain('<del>gone</del>');
+  });
+
+  it('removes scripts', () => {
+    const html = renderMarkdown('before\n\n<script>alert(1)</script>\n\nafter');
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('alert(1)');
+    expect(html).toContain('after');
+  });
+
+  it('removes event handler attributes', () => {
+    const html = renderMarkdown('<img src="x.png" onerror="alert(1)"> <a href="#" onclick="alert(1)">x</a>');
+    expect(html).toContain('<img src="x.png">');
+    expect(html).not.toMatch(/\son\w+=/);
+  });
+
+  it('removes javascript: links', () => {
+    const html = renderMarkdown('[click](javascript:alert(1)) <a href="JaVaScRiPt:alert(1)">raw</a>');
+    expect(html).not.toMatch(/javascript:/i);
+    expect(html).toContain('click');
+  });
+
+  it('opens links in a new tab', () => {
+    expect(renderMarkdown('[site](https://example.com)')).toContain(
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer">site</a>'
+    );
+  });
+});
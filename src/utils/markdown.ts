@@ -0,0 +1,32 @@
+import { Marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+/**
+ * Markdown rendering for the preview pane
+ *
+ * GitHub-flavoured: tables, task lists, strikethrough and fenced code
+ * blocks. Documents are written by anyone with the link, so the HTML is
+ * always sanitized before it's put on the page.
+ */
+
+const markdown = new Marked({ gfm: true, async: false });
+
+// Links in a note open next to the editor rather than replacing it
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+/**
+ * Renders Markdown text to sanitized HTML
+ */
+export const renderMarkdown = (text: string): string => {
+  const html = markdown.parse(text) as string;
+  return DOMPurify.sanitize(html, {
+    // Task list checkboxes are rendered disabled; keep nothing else interactive
+    FORBID_TAGS: ['style', 'form', 'button', 'textarea', 'select'],
+    ADD_ATTR: ['target']
+  });
+};
@@ -0,0 +1,268 @@
+import {
+  CRDTUpdate,
+  loadDocument,
+  getText,
+  getStateVector,
+  hasChangesSince,
+  encodeUpdate
+} from '@/utils/crdt';
+import { DocumentFormat, crdtUpdateSchema } from '@/utils/protocol';
+import { getSession } from '@/utils/auth';
+
+/**
+ * Documents kept on this device in IndexedDB, so they can be opened and
+ * edited offline
+ *
+ * Unlike localStorage, IndexedDB writes don't block typing and aren't
+ * limited to a few megabytes for the whole site. Each user's copies are
+ * kept apart, so someone else signing in on the same browser never sees
+ * them or sends their queued changes.
+ */
+
+const DATABASE_NAME = 'collaborative-editor';
+const DATABASE_VERSION = 2;
+// Keyed by [userId, documentId]
+const DOCUMENTS_STORE = 'user_documents';
+// Version 1 kept one copy per document, whoever made it
+const LEGACY_DOCUMENTS_STORE = 'documents';
+
+/**
+ * Local changes waiting to be sent, in the order they were queued
+ * The id is sent along as an idempotency key, so replaying an entry the
+ * server already merged doesn't merge it twice. Each entry only adds
+ * characters typed by one client, which it's sent on behalf of; that may
+ * be an earlier session's client when the changes were restored from here.
+ */
+export interface OutboxEntry {
+  id: string;
+  // Missing from entries queued before it was kept
+  clientId?: string;
+  update: CRDTUpdate;
+  queuedAt: string;
+}
+
+/**
+ * What's kept for one document and user
+ * - content: the local text, readable without loading the replica
+ * - update: the local replica, or null when only the text is known
+ * - base / baseRevision: the server's version the local edits build on
+ * - pending: local operations the server hasn't acknowledged, relative to base
+ * - outbox: the part of pending already queued for sending
+ * - savePending: the user asked to save them, so send on reconnect
+ * - lastSyncedAt: when the server last confirmed our version
+ * - format: how the document is shown, as the server last said
+ */
+export interface OfflineDocument {
+  userId: string;
+  documentId: string;
+  content: string;
+  update: CRDTUpdate | null;
+  base: CRDTUpdate | null;
+  baseRevision: number;
+  pending: CRDTUpdate | null;
+  outbox: OutboxEntry[];
+  savePending: boolean;
+  lastSyncedAt: string | null;
+  // Missing from records kept before formats were synced
+  format?: DocumentFormat;
+  updatedAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const store = db.objectStoreNames.contains(DOCUMENTS_STORE)
+      ? request.transaction.objectStore(DOCUMENTS_STORE)
+      : db.createObjectStore(DOCUMENTS_STORE, { keyPath: ['userId', 'documentId'] });
+    if (!db.objectStoreNames.contains(LEGACY_DOCUMENTS_STORE)) return;
+
+    // Copies from before they were kept per user most likely belong to
+    // whoever is signed in while upgrading; without anyone they're dropped
+    const userId = getSession()?.user.id;
+    const legacy = request.transaction.objectStore(LEGACY_DOCUMENTS_STORE);
+    const cursorRequest = legacy.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor && userId) {
+        store.put({ ...cursor.value, userId });
+        cursor.continue();
+        return;
+      }
+      db.deleteObjectStore(LEGACY_DOCUMENTS_STORE);
+    };
+  };
+
+  databasePromise = promisifyRequest(request).then(db => {
+    // Let a newer version of the app in another tab upgrade the database
+    db.onversionchange = () => {
+      db.close();
+      databasePromise = null;
+    };
+    return db;
+  });
+  // Try again next time rather than remembering the failure
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+  return databasePromise;
+};
+
+const legacyReplicaKey = (documentId: string) => `document_${documentId}_crdt`;
+const legacyContentKey = (documentId: string) => `document_${documentId}_content`;
+
+/**
+ * Reads what earlier versions kept in localStorage
+ * - document_<id>_crdt: the replica with its base and flags
+ * - document_<id>_content: only the text, from before replicas were kept
+ */
+const readLegacyDocument = (userId: string, documentId: string): OfflineDocument | null => {
+  const updatedAt = new Date().toISOString();
+
+  try {
+    const saved = localStorage.getItem(legacyReplicaKey(documentId));
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (crdtUpdateSchema.safeParse(parsed.update).success) {
+        const base = parsed.base && crdtUpdateSchema.safeParse(parsed.base).success ? parsed.base as CRDTUpdate : null;
+        const update = parsed.update as CRDTUpdate;
+        const doc = loadDocument('migration', update);
+        // Without a base, unsaved edits are on an unknown version; saved
+        // ones are the server's version
+        const baseDoc = base ? loadDocument('migration', base) : null;
+        const pending = baseDoc ? encodeUpdate(doc, getStateVector(baseDoc)) : update;
+        const dirty = Boolean(parsed.dirty) && (!baseDoc || hasChangesSince(doc, baseDoc));
+        return {
+          userId,
+          documentId,
+          content: getText(doc),
+          update,
+          base: base ?? (dirty ? null : update),
+          baseRevision: typeof parsed.baseRevision === 'number' ? parsed.baseRevision : 0,
+          pending: dirty ? pending : null,
+          outbox: [],
+          savePending: Boolean(parsed.savePending),
+          lastSyncedAt: null,
+          updatedAt
+        };
+      }
+    }
+  } catch (err) {
+    console.warn("Ignoring unreadable local document state:", err);
+  }
+
+  const content = localStorage.getItem(legacyContentKey(documentId));
+  if (content === null) return null;
+  // Only good for showing something while the server's version loads
+  return {
+    userId,
+    documentId,
+    content,
+    update: null,
+    base: null,
+    baseRevision: 0,
+    pending: null,
+    outbox: [],
+    savePending: false,
+    lastSyncedAt: null,
+    updatedAt
+  };
+};
+
+const removeLegacyDocument = (documentId: string) => {
+  localStorage.removeItem(legacyReplicaKey(documentId));
+  localStorage.removeItem(legacyContentKey(documentId));
+};
+
+/**
+ * Stores a document, replacing what was kept for it before
+ */
+export const saveOfflineDocument = async (record: OfflineDocument): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+  transaction.objectStore(DOCUMENTS_STORE).put(record);
+  await transactionDone(transaction);
+};
+
+const readOfflineDocument = async (userId: string, documentId: string): Promise<OfflineDocument | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, 'readonly');
+  const record = await promisifyRequest(transaction.objectStore(DOCUMENTS_STORE).get([userId, documentId]));
+  return (record as OfflineDocument | undefined) ?? null;
+};
+
+// Loads in progress, so two loads of the same document can't both migrate it
+const loadsInProgress = new Map<string, Promise<OfflineDocument | null>>();
+
+/**
+ * Loads what the user keeps for a document, moving it over from
+ * localStorage the first time
+ * What's in localStorage predates sign-in, so it goes to the first user
+ * who opens the document here.
+ */
+export const loadOfflineDocument = (userId: string, documentId: string): Promise<OfflineDocument | null> => {
+  const loadKey = JSON.stringify([userId, documentId]);
+  const inProgress = loadsInProgress.get(loadKey);
+  if (inProgress) return inProgress;
+
+  const load = (async () => {
+    let record: OfflineDocument | null;
+    try {
+      record = await readOfflineDocument(userId, documentId);
+    } catch (err) {
+      // Without IndexedDB, whatever localStorage still has is better than nothing
+      console.warn("Couldn't read IndexedDB, falling back to localStorage:", err);
+      return readLegacyDocument(userId, documentId);
+    }
+    if (record) return record;
+
+    const legacy = readLegacyDocument(userId, documentId);
+    if (!legacy) return null;
+    console.log("Moving document", documentId, "from localStorage to IndexedDB");
+    await saveOfflineDocument(legacy);
+    removeLegacyDocument(documentId);
+    return legacy;
+  })();
+
+  loadsInProgress.set(loadKey, load);
+  load.finally(() => loadsInProgress.delete(loadKey)).catch(() => {});
+  return load;
+};
+
+/**
+ * Forgets every document the user kept on this device, with any changes
+ * still queued for sending, e.g. when they sign out
+ * Copies left in localStorage by earlier versions go too, since they'd
+ * otherwise be handed to whoever signs in next.
+ */
+export const clearOfflineDocuments = async (userId: string): Promise<void> => {
+  Object.keys(localStorage)
+    .filter(key => /^document_.+_(crdt|content)$/.test(key))
+    .forEach(key => localStorage.removeItem(key));
+
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+  // Arrays sort after strings, so this covers every [userId, documentId]
+  transaction.objectStore(DOCUMENTS_STORE).delete(IDBKeyRange.bound([userId], [userId, []]));
+  await transactionDone(transaction);
+};
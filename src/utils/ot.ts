@@ -0,0 +1,161 @@
+/**
+ * Text operations describing a change to a plain-text document
+ *
+ * Syncing is done by the CRDT in crdt.ts; operations are what it reports
+ * a merge changed, and what the editors use to keep carets in place.
+ * An operation is a list of components applied left to right over the
+ * document:
+ * - a positive number retains that many characters
+ * - a negative number deletes that many characters
+ * - a string inserts that text
+ */
+
+import { diffSequences, splitLines } from '@/utils/diff';
+
+export type OperationComponent = number | string;
+export type TextOperation = OperationComponent[];
+
+const isRetain = (c: OperationComponent): c is number => typeof c === 'number' && c > 0;
+const isDelete = (c: OperationComponent): c is number => typeof c === 'number' && c < 0;
+const isInsert = (c: OperationComponent): c is string => typeof c === 'string';
+
+/**
+ * Builder helpers that keep operations normalized
+ * (no empty components, adjacent components of the same kind merged,
+ * inserts ordered before deletes)
+ */
+const retain = (op: TextOperation, n: number): void => {
+  if (n <= 0) return;
+  const last = op[op.length - 1];
+  if (op.length > 0 && isRetain(last)) {
+    op[op.length - 1] = last + n;
+  } else {
+    op.push(n);
+  }
+};
+
+const insert = (op: TextOperation, text: string): void => {
+  if (text === '') return;
+  const last = op[op.length - 1];
+  if (op.length > 0 && isInsert(last)) {
+    op[op.length - 1] = last + text;
+  } else if (op.length > 0 && isDelete(last)) {
+    // Keep inserts in front of deletes so equal operations compare equal
+    const beforeLast = op[op.length - 2];
+    if (op.length > 1 && isInsert(beforeLast)) {
+      op[op.length - 2] = beforeLast + text;
+    } else {
+      op.splice(op.length - 1, 0, text);
+    }
+  } else {
+    op.push(text);
+  }
+};
+
+const remove = (op: TextOperation, n: number): void => {
+  if (n <= 0) return;
+  const last = op[op.length - 1];
+  if (op.length > 0 && isDelete(last)) {
+    op[op.length - 1] = last - n;
+  } else {
+    op.push(-n);
+  }
+};
+
+/**
+ * Whether applying the operation leaves the document unchanged
+ */
+export const isNoop = (op: TextOperation): boolean =>
+  op.length === 0 || (op.length === 1 && isRetain(op[0]));
+
+/**
+ * Builds the operation turning one text into another
+ * Only the differing middle section is replaced, which matches how a
+ * single edit in the editor changes the text.
+ */
+export const diffToOperation = (oldText: string, newText: string): TextOperation => {
+  let prefix = 0;
+  const minLength = Math.min(oldText.length, newText.length);
+  while (prefix < minLength && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < minLength - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const op: TextOperation = [];
+  retain(op, prefix);
+  insert(op, newText.slice(prefix, newText.length - suffix));
+  remove(op, oldText.length - prefix - suffix);
+  retain(op, suffix);
+  return op;
+};
+
+/**
+ * Builds the operation turning one text into another, line by line
+ * Each run of changed lines becomes its own edit, trimmed like
+ * diffToOperation, so changes far apart retain everything between them.
+ */
+export const diffLinesToOperation = (oldText: string, newText: string): TextOperation => {
+  // Lines keep their newline, so the tokens join back into the text
+  const toTokens = (text: string) =>
+    splitLines(text).map((line, i, lines) => (i < lines.length - 1 ? `${line}\n` : line));
+
+  const op: TextOperation = [];
+  let deleted = '';
+  let inserted = '';
+  const flushHunk = () => {
+    for (const c of diffToOperation(deleted, inserted)) {
+      if (isRetain(c)) retain(op, c);
+      else if (isInsert(c)) insert(op, c);
+      else remove(op, -c);
+    }
+    deleted = '';
+    inserted = '';
+  };
+
+  for (const part of diffSequences(toTokens(oldText), toTokens(newText))) {
+    const text = part.tokens.join('');
+    if (part.type === 'delete') {
+      deleted += text;
+    } else if (part.type === 'insert') {
+      inserted += text;
+    } else {
+      flushHunk();
+      retain(op, text.length);
+    }
+  }
+  flushHunk();
+  return op;
+};
+
+/**
+ * Maps a text offset through an operation
+ * Used to keep cursor and selection positions stable across edits.
+ * @param ownInsert Whether an insert exactly at the index should push it forward
+ */
+export const transformIndex = (index: number, op: TextOperation, ownInsert = false): number => {
+  let newIndex = index;
+  let position = 0;
+
+  for (const c of op) {
+    if (position > index) break;
+    if (isRetain(c)) {
+      position += c;
+    } else if (isInsert(c)) {
+      if (position < index || ownInsert) {
+        newIndex += c.length;
+      }
+    } else {
+      newIndex -= Math.min(-c, index - position);
+      position -= c;
+    }
+  }
+
+  return Math.max(0, newIndex);
+};
@@ -0,0 +1,15 @@
+/**
+ * Editor preferences remembered on this device
+ */
+
+const AUTOSAVE_KEY = 'autosave_enabled';
+
+/**
+ * Whether changes are saved automatically; on unless turned off
+ */
+export const getAutosavePreference = (): boolean =>
+  localStorage.getItem(AUTOSAVE_KEY) !== 'false';
+
+export const setAutosavePreference = (enabled: boolean): void => {
+  localStorage.setItem(AUTOSAVE_KEY, String(enabled));
+};
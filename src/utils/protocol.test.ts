@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_DELETE_RANGES,
+  MAX_DELETE_RANGE_LENGTH,
+  createShareLinkSchema,
+  cursorUpdateSchema,
+  documentUpdateSchema,
+  getDocumentSchema,
+  joinDocumentSchema,
+  listRevisionsSchema,
+  parsePayload,
+  setMemberRoleSchema
+} from '@/utils/protocol';
+
+const update = (deletes: Record<string, [number, number][]>) => ({
+  documentId: 'doc',
+  clientId: 'a',
+  baseRevision: 0,
+  update: { runs: [], deletes },
+  updateId: 'u1'
+});
+
+describe('protocol schemas', () => {
+  it('describes the first problem with a payload', () => {
+    expect(parsePayload(joinDocumentSchema, null)).toEqual({ data: null, error: expect.stringMatching(/^payload: /) });
+    expect(parsePayload(joinDocumentSchema, { documentId: 'doc', protocolVersion: 1 }).error).toMatch(/^clientId: /);
+  });
+
+  it('rejects fields of the wrong type or format', () => {
+    const join = { documentId: 'doc', clientId: 'a', protocolVersion: 1 };
+    expect(parsePayload(joinDocumentSchema, join).error).toBeNull();
+    expect(parsePayload(joinDocumentSchema, { ...join, protocolVersion: '1' }).error).toMatch(/^protocolVersion: /);
+    expect(parsePayload(joinDocumentSchema, { ...join, color: 'red' }).error).toMatch(/^color: /);
+    expect(parsePayload(joinDocumentSchema, { ...join, documentId: '' }).error).toMatch(/^documentId: /);
+    expect(parsePayload(joinDocumentSchema, { ...join, documentId: 'x'.repeat(201) }).error).toMatch(/^documentId: /);
+    expect(parsePayload(createShareLinkSchema, { documentId: 'doc', role: 'editor', expiresAt: 'tomorrow' }).error)
+      .toMatch(/^expiresAt: /);
+  });
+
+  it('rejects roles a request may not ask for', () => {
+    expect(parsePayload(createShareLinkSchema, { documentId: 'doc', role: 'owner', expiresAt: null }).error).toMatch(/^role: /);
+    expect(parsePayload(setMemberRoleSchema, { documentId: 'doc', userId: 'b', role: 'admin' }).error).toMatch(/^role: /);
+    expect(parsePayload(setMemberRoleSchema, { documentId: 'doc', userId: 'b', role: null }).error).toBeNull();
+  });
+
+  it('rejects out-of-range numbers', () => {
+    expect(parsePayload(documentUpdateSchema, { ...update({}), baseRevision: -1 }).error).toMatch(/^baseRevision: /);
+    expect(parsePayload(documentUpdateSchema, { ...update({}), baseRevision: 1.5 }).error).toMatch(/^baseRevision: /);
+    expect(parsePayload(listRevisionsSchema, { documentId: 'doc', limit: 501 }).error).toMatch(/^limit: /);
+    expect(parsePayload(getDocumentSchema, { documentId: 'doc', stateVector: { a: -1 } }).error).toMatch(/^stateVector\.a: /);
+    expect(parsePayload(cursorUpdateSchema, {
+      documentId: 'doc',
+      clientId: 'a',
+      cursor: { start: -1, end: 0, startAnchor: null, endAnchor: null }
+    }).error).toMatch(/^cursor\.start: /);
+  });
+
+  it('rejects malformed updates', () => {
+    const withRun = (run: object) => ({ ...update({}), update: { runs: [run], deletes: {} } });
+    const run = { client: 'a', clock: 1, origin: null, content: 'x' };
+    expect(parsePayload(documentUpdateSchema, withRun(run)).error).toBeNull();
+    expect(parsePayload(documentUpdateSchema, withRun({ ...run, clock: 0 })).error).toMatch(/^update\.runs\.0\.clock: /);
+    expect(parsePayload(documentUpdateSchema, withRun({ ...run, content: '' })).error).toMatch(/^update\.runs\.0\.content: /);
+    expect(parsePayload(documentUpdateSchema, withRun({ ...run, origin: ['a'] })).error).toMatch(/^update\.runs\.0\.origin/);
+    expect(parsePayload(documentUpdateSchema, update({ a: [[0, 1]] })).error).toMatch(/^update\.deletes\.a\.0\.0: /);
+    expect(parsePayload(documentUpdateSchema, { ...update({}), updateId: 'x'.repeat(101) }).error).toMatch(/^updateId: /);
+  });
+
+  it('fills in defaults', () => {
+    expect(parsePayload(getDocumentSchema, { documentId: 'doc' }).data).toEqual({ documentId: 'doc', stateVector: {} });
+  });
+
+  it('accepts delete ranges within the bounds', () => {
+    const { data, error } = parsePayload(documentUpdateSchema, update({ a: [[1, MAX_DELETE_RANGE_LENGTH]] }));
+    expect(error).toBeNull();
+    expect(data?.update.deletes).toEqual({ a: [[1, MAX_DELETE_RANGE_LENGTH]] });
+  });
+
+  it('rejects an oversized delete range', () => {
+    const { data, error } = parsePayload(documentUpdateSchema, update({ x: [[1, 1e12]] }));
+    expect(data).toBeNull();
+    expect(error).toMatch(/^update\.deletes\.x\.0\.1: /);
+  });
+
+  it('rejects too many delete ranges', () => {
+    const ranges = Array.from({ length: MAX_DELETE_RANGES / 2 + 1 }, (_, i): [number, number] => [i * 2 + 1, 1]);
+    const { data, error } = parsePayload(documentUpdateSchema, update({ a: ranges, b: ranges }));
+    expect(data).toBeNull();
+    expect(error).toMatch(/^update\.deletes: /);
+  });
+});
@@ -0,0 +1,677 @@
+/**
+ * Socket.io event contract shared by the client and the server in server/
+ *
+ * Every payload has a zod schema so whichever side receives a message can
+ * check it before acting on it, and the event maps type both ends of the
+ * socket. Bump PROTOCOL_VERSION whenever a payload changes incompatibly.
+ */
+
+import { z } from 'zod';
+import type { CRDTUpdate, RelativePosition, StateVector } from '@/utils/crdt';
+
+export const PROTOCOL_VERSION = 6;
+
+// Authentication
+//
+// Sockets are only accepted with a token from signing in, passed in the
+// handshake's auth data. Signing in is a plain HTTP request to the same
+// server, since there's no socket to send it over yet.
+
+export const SIGN_IN_PATH = '/auth/sign-in';
+
+/**
+ * A signed-in person; id is stable across devices and sessions
+ */
+export interface AuthUser {
+  id: string;
+  displayName: string;
+}
+
+export interface SignInRequest {
+  username: string;
+  password: string;
+}
+
+export interface SignInResponse {
+  token: string;
+  user: AuthUser;
+  expiresAt: string;
+}
+
+// The connect_error message for a missing, invalid or expired token
+export const UNAUTHORIZED_ERROR = 'unauthorized';
+
+// Access control
+//
+// Each document has members with a role; whoever creates a document owns
+// it, and anyone may read an older one nobody owns and claim it. Owners let
+// others in with share links, which grant a role to anyone signed in who
+// opens them until they expire or are revoked.
+
+/**
+ * What someone may do with a document, from most to least
+ * - owner: everything, including managing who has access
+ * - editor: change the text and restore revisions
+ * - commenter: read, for now; comments will need this role
+ * - viewer: read the text and its history
+ */
+export type DocumentRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export const DOCUMENT_ROLES: DocumentRole[] = ['owner', 'editor', 'commenter', 'viewer'];
+
+// Links can grant any role but ownership
+export type ShareRole = Exclude<DocumentRole, 'owner'>;
+
+/**
+ * Whether a role includes everything another one allows
+ * Nobody (null) has no role at all.
+ */
+export const hasRole = (role: DocumentRole | null, required: DocumentRole): boolean =>
+  role !== null && DOCUMENT_ROLES.indexOf(role) <= DOCUMENT_ROLES.indexOf(required);
+
+export interface DocumentMember {
+  userId: string;
+  displayName: string;
+  role: DocumentRole;
+}
+
+export interface ShareLink {
+  token: string;
+  role: ShareRole;
+  createdBy: string;
+  createdAt: string;
+  // Never expires when null
+  expiresAt: string | null;
+}
+
+/**
+ * How a document is shown to everyone who opens it
+ * Rich-text documents are told apart by their content instead.
+ * - plain: text only
+ * - markdown: text next to its rendered Markdown
+ */
+export type DocumentFormat = 'plain' | 'markdown';
+
+// Client to server
+
+/**
+ * Who is joining comes from the socket's token; clientId tells apart the
+ * same person's tabs, and color is how their caret is drawn
+ */
+export interface JoinDocumentPayload {
+  documentId: string;
+  clientId: string;
+  protocolVersion: number;
+  color?: string;
+  // From a share link; makes the user a member if it's still valid
+  shareToken?: string;
+}
+
+export interface LeaveDocumentPayload {
+  documentId: string;
+  clientId: string;
+}
+
+export interface GetDocumentPayload {
+  documentId: string;
+  stateVector?: StateVector;
+}
+
+/**
+ * Local changes being saved
+ * baseRevision is the server revision the changes were made on top of; the
+ * server refuses the save if the document has moved on since.
+ */
+export interface DocumentUpdatePayload {
+  documentId: string;
+  clientId: string;
+  baseRevision: number;
+  update: CRDTUpdate;
+  // Idempotency key: sending the same update again after a lost
+  // acknowledgement gets the original answer instead of a second merge
+  updateId: string;
+}
+
+export interface PresenceHeartbeatPayload {
+  documentId: string;
+  clientId: string;
+}
+
+export interface ListDocumentsPayload {
+  limit?: number;
+}
+
+export interface ListRevisionsPayload {
+  documentId: string;
+  limit?: number;
+}
+
+export interface GetRevisionPayload {
+  documentId: string;
+  revision: number;
+}
+
+/**
+ * Round trip for measuring latency; the server echoes it back unchanged
+ * as latency_pong. sentAt is the client's clock, in milliseconds.
+ */
+export interface LatencyPingPayload {
+  sentAt: number;
+}
+
+/**
+ * A participant's selection as text offsets, plus anchors on the characters
+ * around it so receivers can place it correctly after concurrent edits
+ */
+export interface CursorSelection {
+  start: number;
+  end: number;
+  startAnchor: RelativePosition;
+  endAnchor: RelativePosition;
+}
+
+export interface CursorUpdatePayload {
+  documentId: string;
+  clientId: string;
+  cursor: CursorSelection | null;
+}
+
+/**
+ * Changes a member's role, or removes them with a null role; owners only
+ */
+export interface SetMemberRolePayload {
+  documentId: string;
+  userId: string;
+  role: DocumentRole | null;
+}
+
+export interface CreateShareLinkPayload {
+  documentId: string;
+  role: ShareRole;
+  expiresAt: string | null;
+}
+
+export interface RevokeShareLinkPayload {
+  documentId: string;
+  token: string;
+}
+
+/**
+ * Changes how a document is shown, for everyone; editors only
+ */
+export interface SetDocumentFormatPayload {
+  documentId: string;
+  format: DocumentFormat;
+}
+
+/**
+ * Makes the sender the owner of a document nobody owns yet
+ */
+export interface ClaimDocumentPayload {
+  documentId: string;
+}
+
+// Server to client
+
+export interface DocumentJoinedPayload {
+  documentId: string;
+  protocolVersion: number;
+}
+
+export interface DocumentContentPayload {
+  documentId: string;
+  content: string;
+  update: CRDTUpdate;
+  stateVector: StateVector;
+  revision: number;
+  updatedAt: string;
+  format: DocumentFormat;
+}
+
+export interface DocumentUpdatedPayload {
+  documentId: string;
+  clientId: string;
+  // Who made the change
+  userId: string;
+  displayName: string;
+  update: CRDTUpdate;
+  stateVector: StateVector;
+  revision: number;
+  updatedAt: string;
+}
+
+/**
+ * Answer to document_update
+ * conflict is set when the save was refused because it was based on an
+ * old revision; the client should fetch the changes, merge and save again.
+ */
+export interface DocumentSavedPayload {
+  documentId?: string;
+  // The updateId of the update this answers
+  updateId?: string;
+  success: boolean;
+  conflict?: boolean;
+  // The update had already been merged; revision is the one it made
+  duplicate?: boolean;
+  stateVector?: StateVector;
+  revision?: number;
+  updatedAt?: string;
+  error?: string;
+}
+
+export interface Participant {
+  clientId: string;
+  userId: string;
+  displayName: string;
+  color: string;
+  joinedAt: string;
+}
+
+/**
+ * Everyone currently in a document, sent whenever someone joins, leaves or
+ * stops sending heartbeats
+ */
+export interface PresenceUpdatePayload {
+  documentId: string;
+  participants: Participant[];
+}
+
+export interface CursorUpdatedPayload {
+  documentId: string;
+  clientId: string;
+  cursor: CursorSelection | null;
+}
+
+/**
+ * The receiver's role in a document, sent after joining and whenever
+ * access changes; members and links are only included for owners
+ */
+export interface DocumentAccessPayload {
+  documentId: string;
+  role: DocumentRole;
+  members?: DocumentMember[];
+  links?: ShareLink[];
+  // Nobody owns the document yet, so the receiver may claim it
+  unclaimed?: boolean;
+}
+
+/**
+ * A document's format, sent to everyone in it when an editor changes it
+ */
+export interface DocumentFormatPayload {
+  documentId: string;
+  format: DocumentFormat;
+}
+
+/**
+ * One saved revision of a document, without its text
+ */
+export interface RevisionSummary {
+  revision: number;
+  clientId: string;
+  // Missing from revisions saved before sign-in existed
+  userId?: string;
+  displayName?: string;
+  createdAt: string;
+  length: number;
+}
+
+export interface RevisionListPayload {
+  documentId: string;
+  revisions: RevisionSummary[];
+}
+
+export interface RevisionContentPayload {
+  documentId: string;
+  revision: number;
+  clientId: string;
+  userId?: string;
+  displayName?: string;
+  createdAt: string;
+  content: string;
+}
+
+export interface DocumentSummary {
+  id: string;
+  title: string;
+  revision: number;
+  updatedAt: string;
+}
+
+export interface DocumentListPayload {
+  documents: DocumentSummary[];
+}
+
+/**
+ * Error codes let the client tell fatal errors from ones it can recover from
+ * - unsupported_protocol: client and server speak different protocol versions
+ * - invalid_payload: a message didn't match its schema
+ * - forbidden: the user's role doesn't allow the request
+ * - not_found / internal: the request itself failed
+ */
+export type DocumentErrorCode = 'unsupported_protocol' | 'invalid_payload' | 'forbidden' | 'not_found' | 'internal';
+
+/**
+ * request names the client event that failed, so errors for side requests
+ * (history, listings) can be told apart from ones that break the session
+ */
+export interface DocumentErrorPayload {
+  documentId?: string;
+  code?: DocumentErrorCode;
+  message: string;
+  request?: string;
+}
+
+// zod's inferred types don't line up with the interfaces without strict
+// mode, so each schema is declared as producing its interface
+const typed = <T>(schema: z.ZodTypeAny) => schema as z.ZodType<T>;
+
+// Bounds on an update's delete set; a whole document's deletions fit well
+// within them, while a forged one can't make a replica do unbounded work
+export const MAX_DELETE_RANGES = 100_000;
+export const MAX_DELETE_RANGE_LENGTH = 1_000_000;
+
+export const stateVectorSchema = typed<StateVector>(z.record(z.string(), z.number().int().nonnegative()));
+
+export const crdtUpdateSchema = typed<CRDTUpdate>(z.object({
+  runs: z.array(z.object({
+    client: z.string().min(1),
+    clock: z.number().int().positive(),
+    origin: z.tuple([z.string().min(1), z.number().int().positive()]).nullable(),
+    content: z.string().min(1)
+  })),
+  deletes: z.record(
+    z.string(),
+    z.array(z.tuple([z.number().int().positive(), z.number().int().positive().max(MAX_DELETE_RANGE_LENGTH)]))
+  ).refine(
+    deletes => Object.values(deletes).reduce((count, ranges) => count + ranges.length, 0) <= MAX_DELETE_RANGES,
+    { message: `At most ${MAX_DELETE_RANGES} delete ranges` }
+  )
+}));
+
+const documentIdSchema = z.string().min(1).max(200);
+
+// Authentication schemas
+
+export const authUserSchema = typed<AuthUser>(z.object({
+  id: z.string().min(1),
+  displayName: z.string().min(1)
+}));
+
+export const signInRequestSchema = typed<SignInRequest>(z.object({
+  username: z.string().trim().min(1).max(40),
+  password: z.string().min(1).max(200)
+}));
+
+export const signInResponseSchema = typed<SignInResponse>(z.object({
+  token: z.string().min(1),
+  user: authUserSchema,
+  expiresAt: z.string()
+}));
+
+// Client to server schemas
+
+export const joinDocumentSchema = typed<JoinDocumentPayload>(z.object({
+  documentId: documentIdSchema,
+  clientId: z.string().min(1),
+  protocolVersion: z.number().int(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+  shareToken: z.string().min(1).max(100).optional()
+}));
+
+export const leaveDocumentSchema = typed<LeaveDocumentPayload>(z.object({
+  documentId: documentIdSchema,
+  clientId: z.string().min(1)
+}));
+
+export const getDocumentSchema = typed<GetDocumentPayload>(z.object({
+  documentId: documentIdSchema,
+  stateVector: stateVectorSchema.default({})
+}));
+
+export const documentUpdateSchema = typed<DocumentUpdatePayload>(z.object({
+  documentId: documentIdSchema,
+  clientId: z.string().min(1),
+  baseRevision: z.number().int().nonnegative(),
+  update: crdtUpdateSchema,
+  updateId: z.string().min(1).max(100)
+}));
+
+export const presenceHeartbeatSchema = typed<PresenceHeartbeatPayload>(z.object({
+  documentId: documentIdSchema,
+  clientId: z.string().min(1)
+}));
+
+export const listDocumentsSchema = typed<ListDocumentsPayload>(z.object({
+  limit: z.number().int().positive().max(500).optional()
+}));
+
+export const listRevisionsSchema = typed<ListRevisionsPayload>(z.object({
+  documentId: documentIdSchema,
+  limit: z.number().int().positive().max(500).optional()
+}));
+
+export const getRevisionSchema = typed<GetRevisionPayload>(z.object({
+  documentId: documentIdSchema,
+  revision: z.number().int().positive()
+}));
+
+export const latencyPingSchema = typed<LatencyPingPayload>(z.object({
+  sentAt: z.number().finite()
+}));
+
+const relativePositionSchema = z.tuple([z.string().min(1), z.number().int().positive()]).nullable();
+
+const cursorSelectionSchema = z.object({
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+  startAnchor: relativePositionSchema,
+  endAnchor: relativePositionSchema
+}).nullable();
+
+export const cursorUpdateSchema = typed<CursorUpdatePayload>(z.object({
+  documentId: documentIdSchema,
+  clientId: z.string().min(1),
+  cursor: cursorSelectionSchema
+}));
+
+const documentRoleSchema = z.enum(['owner', 'editor', 'commenter', 'viewer']);
+
+const shareRoleSchema = z.enum(['editor', 'commenter', 'viewer']);
+
+export const setMemberRoleSchema = typed<SetMemberRolePayload>(z.object({
+  documentId: documentIdSchema,
+  userId: z.string().min(1),
+  role: documentRoleSchema.nullable()
+}));
+
+export const createShareLinkSchema = typed<CreateShareLinkPayload>(z.object({
+  documentId: documentIdSchema,
+  role: shareRoleSchema,
+  expiresAt: z.string().datetime().nullable()
+}));
+
+export const revokeShareLinkSchema = typed<RevokeShareLinkPayload>(z.object({
+  documentId: documentIdSchema,
+  token: z.string().min(1)
+}));
+
+const formatSchema = z.enum(['plain', 'markdown']);
+
+export const setDocumentFormatSchema = typed<SetDocumentFormatPayload>(z.object({
+  documentId: documentIdSchema,
+  format: formatSchema
+}));
+
+export const claimDocumentSchema = typed<ClaimDocumentPayload>(z.object({
+  documentId: documentIdSchema
+}));
+
+// Server to client schemas
+
+export const documentJoinedSchema = typed<DocumentJoinedPayload>(z.object({
+  documentId: documentIdSchema,
+  protocolVersion: z.number().int()
+}));
+
+export const documentContentSchema = typed<DocumentContentPayload>(z.object({
+  documentId: documentIdSchema,
+  content: z.string(),
+  update: crdtUpdateSchema,
+  stateVector: stateVectorSchema,
+  revision: z.number().int().nonnegative(),
+  updatedAt: z.string(),
+  format: formatSchema
+}));
+
+export const documentUpdatedSchema = typed<DocumentUpdatedPayload>(z.object({
+  documentId: documentIdSchema,
+  clientId: z.string(),
+  userId: z.string(),
+  displayName: z.string(),
+  update: crdtUpdateSchema,
+  stateVector: stateVectorSchema,
+  revision: z.number().int().nonnegative(),
+  updatedAt: z.string()
+}));
+
+export const documentSavedSchema = typed<DocumentSavedPayload>(z.object({
+  documentId: documentIdSchema.optional(),
+  updateId: z.string().optional(),
+  success: z.boolean(),
+  conflict: z.boolean().optional(),
+  duplicate: z.boolean().optional(),
+  stateVector: stateVectorSchema.optional(),
+  revision: z.number().int().nonnegative().optional(),
+  updatedAt: z.string().optional(),
+  error: z.string().optional()
+}));
+
+export const presenceUpdateSchema = typed<PresenceUpdatePayload>(z.object({
+  documentId: documentIdSchema,
+  participants: z.array(z.object({
+    clientId: z.string().min(1),
+    userId: z.string().min(1),
+    displayName: z.string(),
+    color: z.string(),
+    joinedAt: z.string()
+  }))
+}));
+
+export const cursorUpdatedSchema = typed<CursorUpdatedPayload>(z.object({
+  documentId: documentIdSchema,
+  clientId: z.string().min(1),
+  cursor: cursorSelectionSchema
+}));
+
+export const documentAccessSchema = typed<DocumentAccessPayload>(z.object({
+  documentId: documentIdSchema,
+  role: documentRoleSchema,
+  members: z.array(z.object({
+    userId: z.string().min(1),
+    displayName: z.string(),
+    role: documentRoleSchema
+  })).optional(),
+  links: z.array(z.object({
+    token: z.string().min(1),
+    role: shareRoleSchema,
+    createdBy: z.string(),
+    createdAt: z.string(),
+    expiresAt: z.string().nullable()
+  })).optional(),
+  unclaimed: z.boolean().optional()
+}));
+
+export const documentFormatSchema = typed<DocumentFormatPayload>(z.object({
+  documentId: documentIdSchema,
+  format: formatSchema
+}));
+
+export const revisionListSchema = typed<RevisionListPayload>(z.object({
+  documentId: documentIdSchema,
+  revisions: z.array(z.object({
+    revision: z.number().int().positive(),
+    clientId: z.string(),
+    userId: z.string().optional(),
+    displayName: z.string().optional(),
+    createdAt: z.string(),
+    length: z.number().int().nonnegative()
+  }))
+}));
+
+export const revisionContentSchema = typed<RevisionContentPayload>(z.object({
+  documentId: documentIdSchema,
+  revision: z.number().int().positive(),
+  clientId: z.string(),
+  userId: z.string().optional(),
+  displayName: z.string().optional(),
+  createdAt: z.string(),
+  content: z.string()
+}));
+
+export const documentListSchema = typed<DocumentListPayload>(z.object({
+  documents: z.array(z.object({
+    id: documentIdSchema,
+    title: z.string(),
+    revision: z.number().int().nonnegative(),
+    updatedAt: z.string()
+  }))
+}));
+
+export const documentErrorSchema = typed<DocumentErrorPayload>(z.object({
+  documentId: documentIdSchema.optional(),
+  code: z.enum(['unsupported_protocol', 'invalid_payload', 'forbidden', 'not_found', 'internal']).optional(),
+  message: z.string(),
+  request: z.string().optional()
+}));
+
+export interface ClientToServerEvents {
+  join_document: (payload: JoinDocumentPayload) => void;
+  leave_document: (payload: LeaveDocumentPayload) => void;
+  get_document: (payload: GetDocumentPayload) => void;
+  document_update: (payload: DocumentUpdatePayload) => void;
+  presence_heartbeat: (payload: PresenceHeartbeatPayload) => void;
+  list_documents: (payload: ListDocumentsPayload) => void;
+  cursor_update: (payload: CursorUpdatePayload) => void;
+  list_revisions: (payload: ListRevisionsPayload) => void;
+  get_revision: (payload: GetRevisionPayload) => void;
+  latency_ping: (payload: LatencyPingPayload) => void;
+  set_member_role: (payload: SetMemberRolePayload) => void;
+  create_share_link: (payload: CreateShareLinkPayload) => void;
+  revoke_share_link: (payload: RevokeShareLinkPayload) => void;
+  set_document_format: (payload: SetDocumentFormatPayload) => void;
+  claim_document: (payload: ClaimDocumentPayload) => void;
+}
+
+export interface ServerToClientEvents {
+  document_joined: (payload: DocumentJoinedPayload) => void;
+  document_content: (payload: DocumentContentPayload) => void;
+  document_updated: (payload: DocumentUpdatedPayload) => void;
+  document_saved: (payload: DocumentSavedPayload) => void;
+  presence_update: (payload: PresenceUpdatePayload) => void;
+  cursor_updated: (payload: CursorUpdatedPayload) => void;
+  document_access: (payload: DocumentAccessPayload) => void;
+  document_format: (payload: DocumentFormatPayload) => void;
+  document_list: (payload: DocumentListPayload) => void;
+  revision_list: (payload: RevisionListPayload) => void;
+  revision_content: (payload: RevisionContentPayload) => void;
+  latency_pong: (payload: LatencyPingPayload) => void;
+  document_error: (payload: DocumentErrorPayload) => void;
+}
+
+/**
+ * Checks an inbound payload against its schema
+ * @returns The parsed payload, or a readable description of what was wrong
+ */
+export const parsePayload = <T>(
+  schema: z.ZodType<T>,
+  payload: unknown
+): { data: T | null; error: string | null } => {
+  const result = schema.safeParse(payload);
+  if (result.success) {
+    return { data: result.data, error: null };
+  }
+  const issue = result.error.issues[0];
+  const path = issue.path.length > 0 ? issue.path.join('.') : 'payload';
+  return { data: null, error: `${path}: ${issue.message}` };
+};
@@ -0,0 +1,252 @@
+import { z } from 'zod';
+
+/**
+ * Structured model for rich-text documents
+ *
+ * A document is a list of blocks (paragraphs, headings, list items), each
+ * holding spans of text with marks and an optional link. List items are
+ * blocks of their own; consecutive items of the same kind show as one list.
+ *
+ * The sync layer works on text, so a rich document is serialized as a
+ * header line followed by one JSON object per block. Concurrent edits to
+ * different blocks touch different lines and merge cleanly; documents
+ * without the header are plain text and keep working as before.
+ */
+
+export type Mark = 'bold' | 'italic' | 'code';
+
+export interface TextSpan {
+  text: string;
+  marks?: Mark[];
+  link?: string;
+}
+
+export type BlockType = 'paragraph' | 'heading' | 'bullet_item' | 'ordered_item';
+
+export type HeadingLevel = 1 | 2 | 3;
+
+export interface RichBlock {
+  type: BlockType;
+  // Only for headings
+  level?: HeadingLevel;
+  content: TextSpan[];
+}
+
+export interface RichDocument {
+  blocks: RichBlock[];
+}
+
+// Marks are always written in this order so equal documents serialize equally
+export const MARK_ORDER: Mark[] = ['bold', 'italic', 'code'];
+
+const RICH_TEXT_HEADER = JSON.stringify({ format: 'rich-text', version: 1 });
+
+export const textSpanSchema = z.object({
+  text: z.string(),
+  marks: z.array(z.enum(['bold', 'italic', 'code'])).optional(),
+  link: z.string().optional()
+});
+
+export const richBlockSchema = z.object({
+  type: z.enum(['paragraph', 'heading', 'bullet_item', 'ordered_item']),
+  level: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),
+  content: z.array(textSpanSchema)
+});
+
+/**
+ * Whether stored content is a serialized rich-text document
+ */
+export const isRichText = (content: string): boolean =>
+  content === RICH_TEXT_HEADER || content.startsWith(`${RICH_TEXT_HEADER}\n`);
+
+/**
+ * Only web and mail links are kept; anything else (javascript: and the
+ * like) is dropped
+ */
+export const sanitizeLink = (href: string): string | undefined => {
+  const trimmed = href.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  return undefined;
+};
+
+const sameFormatting = (a: TextSpan, b: TextSpan): boolean =>
+  a.link === b.link && (a.marks ?? []).join() === (b.marks ?? []).join();
+
+/**
+ * Puts spans in canonical form: marks in a fixed order without duplicates,
+ * unsafe links removed, empty spans dropped and neighbours with the same
+ * formatting joined
+ */
+export const normalizeSpans = (spans: TextSpan[]): TextSpan[] => {
+  const normalized: TextSpan[] = [];
+  for (const span of spans) {
+    if (span.text === '') continue;
+    const marks = MARK_ORDER.filter(mark => span.marks?.includes(mark));
+    const link = span.link ? sanitizeLink(span.link) : undefined;
+    const next: TextSpan = { text: span.text };
+    if (marks.length > 0) next.marks = marks;
+    if (link) next.link = link;
+
+    const previous = normalized[normalized.length - 1];
+    if (previous && sameFormatting(previous, next)) {
+      previous.text += next.text;
+    } else {
+      normalized.push(next);
+    }
+  }
+  return normalized;
+};
+
+/**
+ * A block with its keys in a fixed order and normalized spans
+ */
+const normalizeBlock = (block: RichBlock): RichBlock => {
+  const content = normalizeSpans(block.content);
+  if (block.type === 'heading') {
+    return { type: 'heading', level: block.level ?? 1, content };
+  }
+  return { type: block.type, content };
+};
+
+/**
+ * Plain text of a block
+ */
+export const getBlockText = (block: RichBlock): string =>
+  block.content.map(span => span.text).join('');
+
+/**
+ * Text of a block line that isn't valid JSON any more, e.g. after two
+ * people edited the same block's structure at once: its text values
+ * joined, so the words survive even if the formatting doesn't
+ */
+const recoverLine = (line: string): RichBlock => {
+  const texts: string[] = [];
+  for (const match of line.matchAll(/"text":("(?:[^"\\]|\\.)*")/g)) {
+    try {
+      texts.push(JSON.parse(match[1]));
+    } catch {
+      // Not a complete string either; skip it
+    }
+  }
+  return { type: 'paragraph', content: [{ text: texts.length > 0 ? texts.join('') : line }] };
+};
+
+/**
+ * Turns plain text into a document with one paragraph per line
+ */
+export const richDocumentFromPlainText = (text: string): RichDocument => ({
+  blocks: text.split('\n').map(line => ({ type: 'paragraph', content: line ? [{ text: line }] : [] }))
+});
+
+/**
+ * Reads stored content as a rich document
+ * Plain-text content becomes one paragraph per line.
+ */
+export const parseRichDocument = (content: string): RichDocument => {
+  if (!isRichText(content)) return richDocumentFromPlainText(content);
+
+  const blocks = content
+    .split('\n')
+    .slice(1)
+    .map(line => {
+      try {
+        const parsed = richBlockSchema.safeParse(JSON.parse(line));
+        if (parsed.success) return normalizeBlock(parsed.data as RichBlock);
+      } catch {
+        // Falls through to recovery
+      }
+      return recoverLine(line);
+    });
+
+  return { blocks: blocks.length > 0 ? blocks : [{ type: 'paragraph', content: [] }] };
+};
+
+/**
+ * Writes a rich document in the form stored and synced
+ */
+export const serializeRichDocument = (doc: RichDocument): string => {
+  const blocks = doc.blocks.length > 0 ? doc.blocks : [{ type: 'paragraph' as const, content: [] }];
+  return [RICH_TEXT_HEADER, ...blocks.map(block => JSON.stringify(normalizeBlock(block)))].join('\n');
+};
+
+/**
+ * Plain text of a document, one line per block
+ */
+export const getPlainText = (doc: RichDocument): string =>
+  doc.blocks.map(getBlockText).join('\n');
+
+// Characters that would otherwise start formatting in the middle of a line
+const escapeMarkdown = (text: string): string => text.replace(/[\\`*_[\]<>]/g, '\\$&');
+
+const getSpanMarkdown = (span: TextSpan): string => {
+  if (span.marks?.includes('code')) {
+    // Fence with more backticks than any run inside the code
+    const longestRun = Math.max(0, ...(span.text.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const padding = span.text.startsWith('`') || span.text.endsWith('`') ? ' ' : '';
+    let code = `${fence}${padding}${span.text}${padding}${fence}`;
+    if (span.link) code = `[${code}](${span.link})`;
+    return code;
+  }
+
+  // Emphasis can't start or end with a space, so keep spaces outside it
+  const [, leading, inner, trailing] = span.text.match(/^(\s*)(.*?)(\s*)$/s) ?? ['', '', span.text, ''];
+  if (!inner) return span.text;
+  let markdown = escapeMarkdown(inner);
+  if (span.marks?.includes('italic')) markdown = `_${markdown}_`;
+  if (span.marks?.includes('bold')) markdown = `**${markdown}**`;
+  if (span.link) markdown = `[${markdown}](${span.link})`;
+  return `${leading}${markdown}${trailing}`;
+};
+
+/**
+ * Markdown for a document; empty paragraphs are dropped, as Markdown has no
+ * way to keep them
+ */
+export const getMarkdown = (doc: RichDocument): string => {
+  const lines: string[] = [];
+  let previous: BlockType | null = null;
+  let number = 0;
+
+  for (const block of doc.blocks) {
+    if (block.content.length === 0) {
+      previous = null;
+      continue;
+    }
+    const inline = block.content.map(getSpanMarkdown).join('');
+    // Items of the same list go on consecutive lines, everything else is
+    // separated by a blank one
+    const continuesList = block.type === previous && block.type !== 'paragraph' && block.type !== 'heading';
+    if (lines.length > 0 && !continuesList) lines.push('');
+    number = block.type === 'ordered_item' && continuesList ? number + 1 : 1;
+
+    if (block.type === 'heading') {
+      lines.push(`${'#'.repeat(block.level ?? 1)} ${inline}`);
+    } else if (block.type === 'bullet_item') {
+      lines.push(`- ${inline}`);
+    } else if (block.type === 'ordered_item') {
+      lines.push(`${number}. ${inline}`);
+    } else {
+      // A paragraph that looks like a heading, list item or quote stays text
+      lines.push(inline.replace(/^(\s*)([#>+-]|\d+\.)/, '$1\\$2'));
+    }
+    previous = block.type;
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Readable text of stored content, whether it's rich or plain, for titles,
+ * previews and comparisons
+ */
+export const toPlainText = (content: string): string =>
+  isRichText(content) ? getPlainText(parseRichDocument(content)) : content;
+
+/**
+ * Whether converting to plain text would lose anything
+ */
+export const hasFormatting = (doc: RichDocument): boolean =>
+  doc.blocks.some(block =>
+    block.type !== 'paragraph' ||
+    block.content.some(span => (span.marks?.length ?? 0) > 0 || span.link)
+  );
@@ -0,0 +1,215 @@
+import {
+  Mark,
+  RichBlock,
+  RichDocument,
+  TextSpan,
+  HeadingLevel,
+  normalizeSpans,
+  sanitizeLink
+} from '@/utils/richText';
+
+/**
+ * Converting rich documents to and from the editor's HTML
+ *
+ * Reading accepts whatever the browser or a paste produces and keeps only
+ * what the model can express, so the editor's DOM never drifts from what's
+ * synced.
+ */
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderSpan = (span: TextSpan): string => {
+  let html = escapeHtml(span.text);
+  if (span.marks?.includes('code')) html = `<code>${html}</code>`;
+  if (span.marks?.includes('italic')) html = `<em>${html}</em>`;
+  if (span.marks?.includes('bold')) html = `<strong>${html}</strong>`;
+  if (span.link) html = `<a href="${escapeHtml(span.link)}">${html}</a>`;
+  return html;
+};
+
+// An empty block still needs a line to put the caret on
+const renderInline = (spans: TextSpan[]): string =>
+  spans.length > 0 ? spans.map(renderSpan).join('') : '<br>';
+
+/**
+ * HTML for the editor; consecutive list items are grouped into lists
+ */
+export const renderRichHtml = (doc: RichDocument): string => {
+  let html = '';
+  let openList: 'ul' | 'ol' | null = null;
+
+  for (const block of doc.blocks) {
+    const list = block.type === 'bullet_item' ? 'ul' : block.type === 'ordered_item' ? 'ol' : null;
+    if (openList && openList !== list) {
+      html += `</${openList}>`;
+      openList = null;
+    }
+    if (list && !openList) {
+      html += `<${list}>`;
+      openList = list;
+    }
+
+    const inner = renderInline(block.content);
+    if (list) {
+      html += `<li>${inner}</li>`;
+    } else if (block.type === 'heading') {
+      html += `<h${block.level}>${inner}</h${block.level}>`;
+    } else {
+      html += `<p>${inner}</p>`;
+    }
+  }
+  if (openList) html += `</${openList}>`;
+  return html;
+};
+
+interface InlineFormat {
+  marks: Mark[];
+  link?: string;
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI',
+  'BLOCKQUOTE', 'PRE', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'TABLE', 'TR'
+]);
+
+// Never contain text the user meant to write
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'HEAD', 'TITLE', 'META']);
+
+const withMark = (format: InlineFormat, mark: Mark): InlineFormat =>
+  format.marks.includes(mark) ? format : { ...format, marks: [...format.marks, mark] };
+
+/**
+ * Marks an element adds, from its tag or its inline style (pasted HTML
+ * often uses styles rather than tags)
+ */
+const applyElementFormat = (element: HTMLElement, format: InlineFormat): InlineFormat => {
+  let next = format;
+  const tag = element.tagName;
+  const style = element.style;
+  const weight = style?.fontWeight;
+
+  if (tag === 'STRONG' || tag === 'B' || weight === 'bold' || Number(weight) >= 600) {
+    next = withMark(next, 'bold');
+  }
+  if (tag === 'EM' || tag === 'I' || style?.fontStyle === 'italic') {
+    next = withMark(next, 'italic');
+  }
+  if (tag === 'CODE' || tag === 'KBD' || tag === 'SAMP' || tag === 'PRE') {
+    next = withMark(next, 'code');
+  }
+  if (tag === 'A') {
+    const link = sanitizeLink(element.getAttribute('href') ?? '');
+    if (link) next = { ...next, link };
+  }
+  return next;
+};
+
+const headingLevel = (tag: string): HeadingLevel => {
+  const level = Number(tag.slice(1));
+  return (level <= 3 ? level : 3) as HeadingLevel;
+};
+
+const isBlockElement = (node: Node | null): boolean =>
+  node !== null && node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as HTMLElement).tagName);
+
+/**
+ * Reads a rich document from editor or pasted HTML
+ * @param collapseWhitespace Treat runs of whitespace as one space, as
+ * browsers do when showing ordinary HTML; the editor keeps them as typed
+ */
+export const readRichDocument = (root: HTMLElement, collapseWhitespace = false): RichDocument => {
+  const blocks: RichBlock[] = [];
+  // Block that inline content is currently added to; blocks are only
+  // started once there's something to put in them
+  let current: RichBlock | null = null;
+  // Inside <pre>, where whitespace is kept even in ordinary HTML
+  let preDepth = 0;
+
+  const startBlock = (type: RichBlock['type'], level?: HeadingLevel): RichBlock => {
+    const block: RichBlock = type === 'heading' ? { type, level: level ?? 1, content: [] } : { type, content: [] };
+    blocks.push(block);
+    current = block;
+    return block;
+  };
+
+  const visit = (node: Node, format: InlineFormat, blockType: RichBlock['type'], level?: HeadingLevel) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      let text = (node.nodeValue ?? '').replace(/\u00a0/g, ' ');
+      if (collapseWhitespace && preDepth === 0) text = text.replace(/\s+/g, ' ');
+      // Whitespace between blocks isn't content
+      if (!current && text.trim() === '') return;
+
+      text.split('\n').forEach((line, index) => {
+        const block = index === 0 && current ? current : startBlock(current?.type ?? blockType, current?.level ?? level);
+        if (line) block.content.push({ text: line, marks: format.marks, link: format.link });
+      });
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName;
+    if (IGNORED_TAGS.has(tag)) return;
+
+    if (tag === 'BR') {
+      // A line break inside a block starts another block of the same kind;
+      // the placeholder <br> browsers put at the end of a block doesn't
+      if (!current) {
+        startBlock(blockType, level);
+      } else if (element.nextSibling && !isBlockElement(element.nextSibling)) {
+        startBlock(current.type, current.level);
+      }
+      return;
+    }
+
+    if (!BLOCK_TAGS.has(tag)) {
+      const inner = applyElementFormat(element, format);
+      element.childNodes.forEach(child => visit(child, inner, blockType, level));
+      return;
+    }
+
+    // Paragraphs inside list items and the like keep the enclosing kind
+    let childType = blockType;
+    let childLevel = level;
+    if (/^H[1-6]$/.test(tag)) {
+      childType = 'heading';
+      childLevel = headingLevel(tag);
+    } else if (tag === 'UL' || tag === 'OL') {
+      childType = tag === 'UL' ? 'bullet_item' : 'ordered_item';
+      childLevel = undefined;
+    }
+
+    const childFormat = tag === 'PRE' ? withMark(format, 'code') : format;
+    current = null;
+    const blockCount = blocks.length;
+    if (tag === 'PRE') preDepth++;
+    element.childNodes.forEach(child => visit(child, childFormat, childType, childLevel));
+    if (tag === 'PRE') preDepth--;
+    // An empty paragraph is still a line
+    if (blocks.length === blockCount && tag !== 'UL' && tag !== 'OL') {
+      startBlock(childType, childLevel);
+    }
+    current = null;
+  };
+
+  root.childNodes.forEach(child => visit(child, { marks: [] }, 'paragraph'));
+
+  return {
+    blocks: blocks.length > 0
+      ? blocks.map(block => ({ ...block, content: normalizeSpans(block.content) }))
+      : [{ type: 'paragraph', content: [] }]
+  };
+};
+
+/**
+ * Reads a rich document from an HTML string, such as the clipboard's
+ */
+export const parseRichHtml = (html: string): RichDocument => {
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  return readRichDocument(parsed.body, true);
+};
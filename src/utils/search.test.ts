@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { SearchOptions, findMatches, replaceMatches } from '@/utils/search';
+
+const plain: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false };
+const regex: SearchOptions = { ...plain, regex: true };
+
+// Replaces every match, as "Replace all" does
+const replaceAll = (text: string, query: string, replacement: string, options: SearchOptions) =>
+  replaceMatches(text, findMatches(text, query, options).matches, query, replacement, options);
+
+describe('findMatches', () => {
+  it('ignores case unless asked not to', () => {
+    expect(findMatches('Cat cat CAT', 'cat', plain).matches).toHaveLength(3);
+    expect(findMatches('Cat cat CAT', 'cat', { ...plain, caseSensitive: true }).matches).toEqual([{ start: 4, end: 7 }]);
+  });
+
+  it('finds regex special characters literally outside regex mode', () => {
+    expect(findMatches('a.b axb', 'a.b', plain).matches).toEqual([{ start: 0, end: 3 }]);
+    expect(findMatches('a.b axb', 'a.b', regex).matches).toHaveLength(2);
+  });
+
+  it('only finds whole words when asked to', () => {
+    const text = 'cat concat cat_ cats café';
+    expect(findMatches(text, 'cat', plain).matches).toHaveLength(4);
+    expect(findMatches(text, 'cat', { ...plain, wholeWord: true }).matches).toEqual([{ start: 0, end: 3 }]);
+    // Letters of other scripts count as word characters
+    expect(findMatches(text, 'caf', { ...plain, wholeWord: true }).matches).toEqual([]);
+  });
+
+  it('combines whole words with a regex', () => {
+    expect(findMatches('red reds bed', '[rb]ed', { ...regex, wholeWord: true }).matches).toEqual([
+      { start: 0, end: 3 },
+      { start: 9, end: 12 }
+    ]);
+  });
+
+  it('reports an invalid regex instead of throwing', () => {
+    const result = findMatches('text', '(unclosed', regex);
+    expect(result.matches).toEqual([]);
+    expect(result.error).toBeTruthy();
+  });
+
+  it('skips empty matches', () => {
+    expect(findMatches('abc', 'x*', regex)).toEqual({ matches: [], error: null });
+    expect(findMatches('anything', '', plain)).toEqual({ matches: [], error: null });
+  });
+});
+
+describe('replaceMatches', () => {
+  it('inserts the replacement as is outside regex mode', () => {
+    expect(replaceAll('a+b a+b', 'a+b', '$&!', plain)).toBe('$&! $&!');
+  });
+
+  it('fills in numbered and named groups', () => {
+    expect(replaceAll('2024-05-06', '(\\d+)-(\\d+)-(\\d+)', '$3/$2/$1', regex)).toBe('06/05/2024');
+    expect(replaceAll('John Smith', '(?<first>\\w+) (?<last>\\w+)', '$<last>, $<first>', regex)).toBe('Smith, John');
+  });
+
+  it('fills in the whole match and escaped dollars', () => {
+    expect(replaceAll('cost 5', '\\d', '$$$&.00', regex)).toBe('cost $5.00');
+  });
+
+  it('leaves references to missing groups alone', () => {
+    expect(replaceAll('ab', '(a)', '[$1$2]', regex)).toBe('[a$2]b');
+    expect(replaceAll('ab', '(a)', '[$<none>]', regex)).toBe('[]b');
+  });
+
+  it('replaces only the given matches', () => {
+    const { matches } = findMatches('one one one', 'one', plain);
+    expect(replaceMatches('one one one', [matches[1]], 'one', 'two', plain)).toBe('one two one');
+  });
+
+  it('keeps lookarounds working when replacing', () => {
+    expect(replaceAll('price: 10, qty: 10', '(?<=price: )\\d+', '[$&]', regex)).toBe('price: [10], qty: 10');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Finding and replacing text in a document
+ */
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // Treat the query as a regular expression
+  regex: boolean;
+}
+
+/**
+ * A match as text offsets; end is exclusive
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  matches: TextRange[];
+  // Why the query couldn't be used, such as an invalid regular expression
+  error: string | null;
+}
+
+// Past this many matches the rest aren't listed
+export const MAX_MATCHES = 10000;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the expression a query searches with
+ * @throws SyntaxError when a regex query isn't valid
+ */
+const buildPattern = (query: string, options: SearchOptions): RegExp => {
+  const flags = `g${options.caseSensitive ? '' : 'i'}`;
+  const source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) {
+    // Letters and digits of any script count as word characters
+    return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`, `${flags}u`);
+  }
+  return new RegExp(source, flags);
+};
+
+/**
+ * Finds every match of a query in the text, in order
+ */
+export const findMatches = (text: string, query: string, options: SearchOptions): SearchResult => {
+  if (query === '') return { matches: [], error: null };
+
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(query, options);
+  } catch (err) {
+    return { matches: [], error: err instanceof Error ? err.message : "Invalid regular expression" };
+  }
+
+  const matches: TextRange[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null && matches.length < MAX_MATCHES) {
+    // Empty matches (like /x*/) would find the same spot forever
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return { matches, error: null };
+};
+
+/**
+ * What a match is replaced with; in regex mode $1, $<name> and $& refer to
+ * the match as in String.prototype.replace
+ */
+const replacementFor = (text: string, match: TextRange, query: string, replacement: string, options: SearchOptions): string => {
+  if (!options.regex) return replacement;
+  // Run the expression again on the match alone, with its surroundings
+  // available for lookarounds
+  const pattern = buildPattern(query, options);
+  pattern.lastIndex = match.start;
+  const found = pattern.exec(text);
+  if (!found || found.index !== match.start) return replacement;
+  return replacement.replace(/\$(\$|&|\d{1,2}|<[^>]*>)/g, (token, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return found[0];
+    if (ref.startsWith('<')) return found.groups?.[ref.slice(1, -1)] ?? '';
+    return Number(ref) < found.length ? found[Number(ref)] ?? '' : token;
+  });
+};
+
+/**
+ * Replaces the given matches, which must be in order and not overlap
+ * @returns The new text
+ */
+export const replaceMatches = (
+  text: string,
+  matches: TextRange[],
+  query: string,
+  replacement: string,
+  options: SearchOptions
+): string => {
+  let result = '';
+  let position = 0;
+  for (const match of matches) {
+    result += text.slice(position, match.start) + replacementFor(text, match, query, replacement, options);
+    position = match.end;
+  }
+  return result + text.slice(position);
+};
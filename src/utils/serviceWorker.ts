@@ -0,0 +1,51 @@
+import { toast } from 'sonner';
+
+/**
+ * Registers the service worker (public/sw.js) that lets the app open offline
+ * Production builds only: the dev server has no precache manifest. When a
+ * new version has been installed, offers to reload into it.
+ */
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      console.log('Service worker registered with scope:', registration.scope);
+
+      // Only an update has a previous worker in control
+      const hadController = Boolean(navigator.serviceWorker.controller);
+      const offerUpdate = (worker: ServiceWorker) => {
+        toast.info("A new version of the app is available", {
+          duration: Infinity,
+          action: {
+            label: "Reload",
+            onClick: () => worker.postMessage({ type: 'SKIP_WAITING' })
+          }
+        });
+      };
+
+      if (registration.waiting && hadController) {
+        offerUpdate(registration.waiting);
+      }
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          if (installing.state === 'installed' && hadController) {
+            offerUpdate(installing);
+          }
+        });
+      });
+
+      // The new worker took over, so load the page it serves
+      let reloading = false;
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (!hadController || reloading) return;
+        reloading = true;
+        window.location.reload();
+      });
+    } catch (err) {
+      console.error('Service worker registration failed:', err);
+    }
+  });
+};
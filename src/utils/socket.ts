@@ -1,52 +1,129 @@
 
 import { io, Socket } from 'socket.io-client';
+import type { CRDTUpdate, StateVector } from '@/utils/crdt';
+import {
+  PROTOCOL_VERSION,
+  SIGN_IN_PATH,
+  UNAUTHORIZED_ERROR,
+  CursorSelection,
+  DocumentFormat,
+  DocumentRole,
+  ShareRole,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  latencyPingSchema,
+  signInResponseSchema,
+  parsePayload
+} from '@/utils/protocol';
+import { updateConnectionStatus } from '@/utils/connectionStore';
+import { AuthSession, clearSession, getSession, setSession, subscribeToSession } from '@/utils/auth';
+
+export type DocumentSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 // Get Socket.io server URL from environment variable or use fallback
 // In production, this should be set to your Render Socket.io server URL
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001';
 
-let socket: Socket | null = null;
+let socket: DocumentSocket | null = null;
 let socketDisconnectTimeout: number | null = null;
-let reconnectAttempts = 0;
+let latencyInterval: number | null = null;
+let watchingNetwork = false;
+let watchingSession = false;
 const MAX_RECONNECT_ATTEMPTS = 10;
 
+// How often the round trip to the server is measured while connected
+const LATENCY_INTERVAL_MS = 15000;
+
+const isBrowserOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const measureLatency = () => {
+  if (socket?.connected) {
+    socket.emit('latency_ping', { sentAt: Date.now() });
+  }
+};
+
+const stopMeasuringLatency = () => {
+  if (latencyInterval) {
+    window.clearInterval(latencyInterval);
+    latencyInterval = null;
+  }
+};
+
 /**
  * Initialize and get socket connection
- * Creates a singleton socket instance
+ * Creates a singleton socket instance and keeps the connection store
+ * (see connectionStore.ts) up to date with its state.
  */
-export const getSocket = (): Socket => {
+export const getSocket = (): DocumentSocket => {
   if (!socket) {
     console.log('Initializing socket connection to:', SOCKET_URL);
     
     socket = io(SOCKET_URL, {
+      // Read on every attempt, so reconnecting uses the latest sign-in
+      auth: (callback) => callback({ token: getSession()?.token }),
       reconnectionAttempts: MAX_RECONNECT_ATTEMPTS,
       reconnectionDelay: 1000,
       autoConnect: true,
       transports: ['websocket', 'polling'],
       withCredentials: false // Important for cross-origin requests
     });
+    updateConnectionStatus({
+      state: isBrowserOffline() ? 'offline' : 'connecting',
+      attempt: 0,
+      maxAttempts: MAX_RECONNECT_ATTEMPTS,
+      latency: null
+    });
     
     socket.on('connect', () => {
       console.log('Socket connected with ID:', socket?.id);
-      // Reset reconnect attempts on successful connection
-      reconnectAttempts = 0;
+      updateConnectionStatus({ state: 'connected', attempt: 0, lastConnectedAt: new Date().toISOString() });
       if (socketDisconnectTimeout) {
         window.clearTimeout(socketDisconnectTimeout);
         socketDisconnectTimeout = null;
       }
+      measureLatency();
+      stopMeasuringLatency();
+      latencyInterval = window.setInterval(measureLatency, LATENCY_INTERVAL_MS);
     });
     
     socket.on('connect_error', (error) => {
       console.error('Socket connection error:', error);
-      reconnectAttempts++;
-      
-      if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
-        console.warn(`Failed to connect after ${MAX_RECONNECT_ATTEMPTS} attempts. Check server URL and CORS settings.`);
+      // The server doesn't accept our token (it expired, or the server's
+      // secret changed), so sign in again; it won't retry by itself
+      if (error.message === UNAUTHORIZED_ERROR) {
+        console.warn('Server refused our sign-in token');
+        updateConnectionStatus({ state: 'failed' });
+        clearSession();
       }
     });
+
+    socket.on('latency_pong', (payload: unknown) => {
+      const { data, error } = parsePayload(latencyPingSchema, payload);
+      if (error) return;
+      updateConnectionStatus({ latency: Math.max(0, Date.now() - data.sentAt) });
+    });
+
+    // Reconnection is run by the manager, which reports each attempt
+    socket.io.on('reconnect_attempt', (attempt) => {
+      console.log(`Reconnection attempt ${attempt} of ${MAX_RECONNECT_ATTEMPTS}`);
+      if (!isBrowserOffline()) {
+        updateConnectionStatus({ state: 'reconnecting', attempt });
+      }
+    });
+
+    socket.io.on('reconnect_failed', () => {
+      console.warn(`Failed to connect after ${MAX_RECONNECT_ATTEMPTS} attempts. Check server URL and CORS settings.`);
+      updateConnectionStatus({ state: isBrowserOffline() ? 'offline' : 'failed' });
+    });
     
     socket.on('disconnect', (reason) => {
       console.log('Socket disconnected:', reason);
+      stopMeasuringLatency();
+      updateConnectionStatus({
+        state: isBrowserOffline() ? 'offline' : 'reconnecting',
+        attempt: 0,
+        latency: null
+      });
       
       // If server disconnected us, try to reconnect after a delay
       if (reason === 'io server disconnect') {
@@ -55,11 +132,94 @@ export const getSocket = (): Socket => {
         }, 5000);
       }
     });
+
+    // Show when there's no network at all, and try again as soon as
+    // it's back rather than waiting out the backoff
+    if (!watchingNetwork) {
+      watchingNetwork = true;
+      window.addEventListener('offline', () => {
+        if (socket && !socket.connected) {
+          updateConnectionStatus({ state: 'offline' });
+        }
+      });
+      window.addEventListener('online', () => {
+        if (socket && !socket.connected) {
+          reconnectNow();
+        }
+      });
+    }
+
+    // A new sign-in needs a new handshake, and signing out ends the session
+    if (!watchingSession) {
+      watchingSession = true;
+      let token = getSession()?.token;
+      subscribeToSession(() => {
+        const next = getSession()?.token;
+        if (next === token) return;
+        token = next;
+        if (!socket) return;
+        socket.disconnect();
+        if (token) {
+          updateConnectionStatus({ state: 'connecting', attempt: 0 });
+          socket.connect();
+        }
+      });
+    }
   }
   
   return socket;
 };
 
+/**
+ * Signs in with the server's account provider and remembers the session,
+ * which (re)connects the socket as that user
+ * @throws With a message to show when the credentials are refused or the
+ * server can't be reached
+ */
+export const signIn = async (username: string, password: string): Promise<AuthSession> => {
+  let response: Response;
+  try {
+    response = await fetch(`${SOCKET_URL}${SIGN_IN_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+  } catch (err) {
+    console.error('Sign-in request failed:', err);
+    throw new Error("Couldn't reach the server. Check your connection and try again.");
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = (body as { error?: unknown } | null)?.error;
+    throw new Error(typeof message === 'string' ? message : `Sign-in failed (${response.status})`);
+  }
+  const { data, error } = parsePayload(signInResponseSchema, body);
+  if (error) {
+    console.error('Malformed sign-in response:', error);
+    throw new Error('The server sent an unexpected answer. Please try again.');
+  }
+  setSession(data);
+  return data;
+};
+
+/**
+ * Try to connect right away, for example after giving up or when the
+ * network comes back; starts a fresh round of reconnection attempts
+ */
+export const reconnectNow = (): void => {
+  const current = getSocket();
+  if (current.connected) return;
+  console.log('Reconnecting now');
+  if (socketDisconnectTimeout) {
+    window.clearTimeout(socketDisconnectTimeout);
+    socketDisconnectTimeout = null;
+  }
+  updateConnectionStatus({ state: 'connecting', attempt: 0 });
+  current.disconnect();
+  current.connect();
+};
+
 /**
  * Disconnect socket connection
  * Call this when the component is unmounted
@@ -67,6 +227,7 @@ export const getSocket = (): Socket => {
 export const disconnectSocket = (): void => {
   if (socket) {
     console.log('Disconnecting socket');
+    stopMeasuringLatency();
     socket.disconnect();
     socket = null;
   }
@@ -74,10 +235,18 @@ export const disconnectSocket = (): void => {
 
 /**
  * Join document editing session
+ * The server answers with document_joined carrying its protocol version,
+ * or document_error if it doesn't support ours or we have no access.
+ * Others see the name we signed in with. A share link's token lets us in
+ * with the link's role.
  */
-export const joinDocument = (documentId: string, clientId: string): void => {
+export const joinDocument = (
+  documentId: string,
+  clientId: string,
+  options?: { color: string; shareToken?: string }
+): void => {
   const socket = getSocket();
-  socket.emit('join_document', { documentId, clientId });
+  socket.emit('join_document', { documentId, clientId, protocolVersion: PROTOCOL_VERSION, ...options });
 };
 
 /**
@@ -89,21 +258,117 @@ export const leaveDocument = (documentId: string, clientId: string): void => {
 };
 
 /**
- * Send document content to server
+ * Tell the server this client is still in the document
+ * Participants that stop sending these are dropped from presence.
+ */
+export const sendPresenceHeartbeat = (documentId: string, clientId: string): void => {
+  const socket = getSocket();
+  socket.emit('presence_heartbeat', { documentId, clientId });
+};
+
+/**
+ * Share this client's selection with everyone else in the document
+ * Pass null when the editor loses focus so others stop showing the caret.
+ */
+export const sendCursorUpdate = (
+  documentId: string,
+  clientId: string,
+  cursor: CursorSelection | null
+): void => {
+  const socket = getSocket();
+  socket.emit('cursor_update', { documentId, clientId, cursor });
+};
+
+/**
+ * Send local changes to the server
+ * The update holds every item the server is missing plus the delete set.
+ * It's only merged if the server is still at baseRevision; otherwise the
+ * server answers with a conflict and nothing is saved. Resending with the
+ * same updateId is safe: the server merges each update only once.
  */
 export const sendDocumentUpdate = (
   documentId: string, 
-  content: string, 
-  clientId: string
+  update: CRDTUpdate, 
+  clientId: string,
+  baseRevision: number,
+  updateId: string
 ): void => {
   const socket = getSocket();
-  socket.emit('document_update', { documentId, content, clientId });
+  socket.emit('document_update', { documentId, update, clientId, baseRevision, updateId });
+};
+
+/**
+ * Get document changes from server
+ * The server replies with everything missing from the given state vector;
+ * an empty state vector requests the whole document.
+ */
+export const requestDocumentContent = (documentId: string, stateVector: StateVector = {}): void => {
+  const socket = getSocket();
+  socket.emit('get_document', { documentId, stateVector });
+};
+
+/**
+ * Ask the server for the stored documents, most recently updated first
+ */
+export const requestDocumentList = (limit?: number): void => {
+  const socket = getSocket();
+  socket.emit('list_documents', { limit });
+};
+
+/**
+ * Ask the server for a document's saved revisions, newest first
+ */
+export const requestRevisionList = (documentId: string, limit?: number): void => {
+  const socket = getSocket();
+  socket.emit('list_revisions', { documentId, limit });
+};
+
+/**
+ * Ask the server for the text of one saved revision
+ */
+export const requestRevision = (documentId: string, revision: number): void => {
+  const socket = getSocket();
+  socket.emit('get_revision', { documentId, revision });
+};
+
+/**
+ * Change someone's role in a document, or remove them with null
+ * Only owners may; everyone in the document gets document_access after.
+ */
+export const setMemberRole = (documentId: string, userId: string, role: DocumentRole | null): void => {
+  const socket = getSocket();
+  socket.emit('set_member_role', { documentId, userId, role });
+};
+
+/**
+ * Create a link that lets anyone signed in join the document with a role
+ * @param expiresAt ISO timestamp, or null for a link that never expires
+ */
+export const createShareLink = (documentId: string, role: ShareRole, expiresAt: string | null): void => {
+  const socket = getSocket();
+  socket.emit('create_share_link', { documentId, role, expiresAt });
+};
+
+export const revokeShareLink = (documentId: string, token: string): void => {
+  const socket = getSocket();
+  socket.emit('revoke_share_link', { documentId, token });
+};
+
+/**
+ * Change how the document is shown for everyone in it
+ * Only editors may; everyone in the document gets document_format after.
+ */
+export const setDocumentFormat = (documentId: string, format: DocumentFormat): void => {
+  const socket = getSocket();
+  socket.emit('set_document_format', { documentId, format });
 };
 
 /**
- * Get initial document content from server
+ * Become the owner of a document nobody owns yet
+ * Everyone in the document gets document_access after, and anyone who
+ * isn't a member is sent away.
  */
-export const requestDocumentContent = (documentId: string): void => {
+export const claimDocument = (documentId: string): void => {
   const socket = getSocket();
-  socket.emit('get_document', { documentId });
+  socket.emit('claim_document', { documentId });
 };
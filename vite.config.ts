@@ -1,8 +1,44 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Files from public/ that belong to the app shell
+const PUBLIC_SHELL_FILES = [
+  "/favicon.ico",
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+// Writes precache-manifest.js, the list of built files the service worker
+// (public/sw.js) caches. Its version changes whenever any file does.
+const precacheManifest = (): Plugin => ({
+  name: "precache-manifest",
+  apply: "build",
+  generateBundle(_options, bundle) {
+    const urls = [...new Set([
+      "/index.html",
+      ...Object.keys(bundle).map((fileName) => `/${fileName}`),
+      ...PUBLIC_SHELL_FILES,
+    ])].filter((url) => !url.endsWith(".map"));
+
+    const hash = createHash("sha256");
+    for (const file of Object.values(bundle)) {
+      hash.update(file.fileName);
+      hash.update(file.type === "chunk" ? file.code : file.source);
+    }
+    const version = hash.digest("hex").slice(0, 12);
+
+    this.emitFile({
+      type: "asset",
+      fileName: "precache-manifest.js",
+      source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, urls }, null, 2)};\n`,
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,6 +49,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    precacheManifest(),
   ].filter(Boolean),
   resolve: {
     alias: {